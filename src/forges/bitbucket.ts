@@ -0,0 +1,234 @@
+import { requestJson, resolveToken } from './http.js';
+import { reviewDecision } from './reviews.js';
+import {
+  ForgeFactory,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestCheck,
+  PullRequestInfo,
+  PullRequestReview
+} from './types.js';
+
+interface UserData {
+  display_name: string;
+  nickname?: string;
+}
+
+interface PullRequestData {
+  id: number;
+  title: string;
+  description?: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED' | 'SUPERSEDED';
+  draft?: boolean;
+  links: { html: { href: string } };
+  source: { branch: { name: string }; commit: { hash: string } | null; repository: { full_name: string } | null };
+  destination: { branch: { name: string } };
+  participants?: {
+    user: UserData;
+    role: 'REVIEWER' | 'PARTICIPANT';
+    approved: boolean;
+    state: 'approved' | 'changes_requested' | null;
+    participated_on: string | null;
+  }[];
+}
+
+interface StatusData {
+  key: string;
+  name: string | null;
+  state: 'SUCCESSFUL' | 'FAILED' | 'INPROGRESS' | 'STOPPED';
+  url: string;
+}
+
+interface CommentData {
+  user: UserData;
+  content: { raw: string };
+  created_on: string;
+  deleted: boolean;
+  links: { html?: { href: string } };
+  inline?: { path: string };
+}
+
+interface Page<T> {
+  values: T[];
+}
+
+// Bitbucket Cloud caps pagelen at 50
+const MAX_PAGE_LENGTH = 50;
+
+function userName(user: UserData): string {
+  return user.nickname ?? user.display_name;
+}
+
+function toCheck(status: StatusData): PullRequestCheck {
+  return {
+    name: status.name ?? status.key,
+    status: status.state === 'INPROGRESS' ? 'in_progress' : 'completed',
+    conclusion: status.state === 'SUCCESSFUL'
+      ? 'success'
+      : status.state === 'FAILED' ? 'failure' : status.state === 'STOPPED' ? 'cancelled' : null,
+    url: status.url || null
+  };
+}
+
+function createBitbucketProvider({ repo, apiUrl, token }: ForgeProviderOptions): ForgeProvider {
+  const pullsUrl = `${apiUrl}/repositories/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}/pullrequests`;
+  // App passwords come as "username:password" and use basic auth; access tokens use bearer auth
+  const headers = {
+    Authorization: token.includes(':') ? `Basic ${Buffer.from(token).toString('base64')}` : `Bearer ${token}`
+  };
+
+  function toPullRequestInfo(data: PullRequestData): PullRequestInfo {
+    const sourceRepo = data.source.repository;
+    const isFork = !sourceRepo || sourceRepo.full_name.toLowerCase() !== `${repo.owner}/${repo.name}`.toLowerCase();
+
+    return {
+      url: data.links.html.href,
+      number: data.id,
+      title: data.title,
+      body: data.description ?? '',
+      state: data.state === 'OPEN' ? 'open' : data.state === 'MERGED' ? 'merged' : 'closed',
+      draft: data.draft ?? false,
+      baseRef: data.destination.branch.name,
+      headRef: data.source.branch.name,
+      isFork,
+      headOwner: sourceRepo ? sourceRepo.full_name.split('/')[0] : null,
+      headCloneUrl: sourceRepo ? `https://${repo.host}/${sourceRepo.full_name}.git` : null,
+      headSshUrl: sourceRepo ? `git@${repo.host}:${sourceRepo.full_name}.git` : null
+    };
+  }
+
+  async function listPulls(params: URLSearchParams): Promise<PullRequestData[]> {
+    return (await requestJson<Page<PullRequestData>>(`${pullsUrl}?${params}`, { headers })).values;
+  }
+
+  return {
+    kind: 'bitbucket',
+    repo,
+    apiUrl,
+
+    async getPullRequest(number) {
+      return toPullRequestInfo(await requestJson<PullRequestData>(`${pullsUrl}/${number}`, { headers }));
+    },
+
+    async findPullRequestForBranch(branch, state = 'all') {
+      const params = new URLSearchParams({
+        q: `source.branch.name="${branch.replace(/"/g, '\\"')}"`,
+        sort: '-updated_on',
+        pagelen: '1'
+      });
+      // Without explicit states only open pull requests are returned
+      if (state === 'all') {
+        for (const prState of ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED']) {
+          params.append('state', prState);
+        }
+      }
+
+      const pulls = await listPulls(params);
+      return pulls.length > 0 ? toPullRequestInfo(pulls[0]) : null;
+    },
+
+    async listOpenPullRequests(limit = 30) {
+      const params = new URLSearchParams({
+        state: 'OPEN',
+        sort: '-updated_on',
+        pagelen: String(Math.min(limit, MAX_PAGE_LENGTH))
+      });
+      return (await listPulls(params)).map(toPullRequestInfo);
+    },
+
+    async createPullRequest({ title, body, head, base, draft }) {
+      const data = await requestJson<PullRequestData>(pullsUrl, {
+        method: 'POST',
+        headers,
+        body: {
+          title,
+          description: body,
+          source: { branch: { name: head } },
+          destination: { branch: { name: base } },
+          draft
+        }
+      });
+      return { url: data.links.html.href, number: data.id, title: data.title };
+    },
+
+    async updatePullRequest(number, { title, body, draft }) {
+      if (title === undefined && body === undefined && draft === undefined) {
+        const data = await requestJson<PullRequestData>(`${pullsUrl}/${number}`, { headers });
+        return { url: data.links.html.href, number: data.id, title: data.title };
+      }
+
+      const data = await requestJson<PullRequestData>(`${pullsUrl}/${number}`, {
+        method: 'PUT',
+        headers,
+        body: { title, description: body, draft }
+      });
+      return { url: data.links.html.href, number: data.id, title: data.title };
+    },
+
+    async getPullRequestStatus(number) {
+      const data = await requestJson<PullRequestData>(`${pullsUrl}/${number}`, { headers });
+
+      const [statuses, comments] = await Promise.all([
+        requestJson<Page<StatusData>>(`${pullsUrl}/${number}/statuses?pagelen=${MAX_PAGE_LENGTH}`, { headers }),
+        requestJson<Page<CommentData>>(`${pullsUrl}/${number}/comments?pagelen=${MAX_PAGE_LENGTH}`, { headers })
+      ]);
+
+      // Bitbucket keeps one verdict per participant rather than a review history
+      const reviews: PullRequestReview[] = [];
+      const requestedReviewers: string[] = [];
+      for (const participant of data.participants ?? []) {
+        const author = userName(participant.user);
+        if (participant.state === 'approved' || participant.approved) {
+          reviews.push({ author, state: 'approved', submittedAt: participant.participated_on });
+        } else if (participant.state === 'changes_requested') {
+          reviews.push({ author, state: 'changes_requested', submittedAt: participant.participated_on });
+        } else if (participant.role === 'REVIEWER') {
+          requestedReviewers.push(author);
+        }
+      }
+
+      return {
+        ...toPullRequestInfo(data),
+        headSha: data.source.commit?.hash ?? null,
+        reviewDecision: reviewDecision(reviews, requestedReviewers),
+        reviews,
+        requestedReviewers,
+        checks: statuses.values.map(toCheck),
+        // Bitbucket Cloud doesn't expose conflict or merge-check state through the API
+        mergeable: null,
+        mergeableState: null,
+        comments: comments.values
+          .filter(comment => !comment.deleted)
+          .map(comment => ({
+            author: userName(comment.user),
+            body: comment.content.raw,
+            createdAt: comment.created_on,
+            url: comment.links.html?.href ?? null,
+            path: comment.inline?.path ?? null
+          }))
+      };
+    },
+
+    pullRequestHeadRef() {
+      // Bitbucket doesn't publish pull request refs; a deleted fork's head can't be fetched
+      return null;
+    }
+  };
+}
+
+export const bitbucketForge: ForgeFactory = {
+  kind: 'bitbucket',
+  displayName: 'Bitbucket',
+  defaultApiUrl: () => 'https://api.bitbucket.org/2.0',
+  resolveToken: async () => {
+    const token = await resolveToken(['BITBUCKET_TOKEN']);
+    if (token) {
+      return token;
+    }
+    const username = process.env.BITBUCKET_USERNAME?.trim();
+    const appPassword = process.env.BITBUCKET_APP_PASSWORD?.trim();
+    return username && appPassword ? `${username}:${appPassword}` : null;
+  },
+  authHelp: () => 'Set BITBUCKET_TOKEN to an access token, or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD',
+  create: createBitbucketProvider
+};
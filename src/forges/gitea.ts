@@ -0,0 +1,252 @@
+import { webBaseUrl } from '../utils/remote.js';
+import { requestJson, resolveToken } from './http.js';
+import { latestReviews, reviewDecision } from './reviews.js';
+import {
+  ForgeFactory,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestCheck,
+  PullRequestComment,
+  PullRequestInfo,
+  PullRequestReview
+} from './types.js';
+
+interface PullRequestData {
+  html_url: string;
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+  merged: boolean;
+  mergeable?: boolean;
+  requested_reviewers?: { login: string }[] | null;
+  requested_reviewers_teams?: { name: string }[] | null;
+  base: { ref: string };
+  head: {
+    ref: string;
+    sha: string;
+    repo: { full_name: string; owner: { login: string }; clone_url: string; ssh_url: string } | null;
+  };
+}
+
+interface ReviewData {
+  id: number;
+  user: { login: string } | null;
+  state: 'APPROVED' | 'REQUEST_CHANGES' | 'COMMENT' | 'PENDING' | 'REQUEST_REVIEW';
+  dismissed: boolean;
+  submitted_at: string | null;
+  comments_count: number;
+}
+
+interface CommentData {
+  user: { login: string } | null;
+  body: string;
+  created_at: string;
+  html_url: string;
+  path?: string;
+}
+
+interface CombinedStatusData {
+  statuses: { context: string; status: 'pending' | 'success' | 'error' | 'failure' | 'warning'; target_url: string }[];
+}
+
+// Gitea marks drafts ("work in progress") by title prefix
+const DRAFT_PREFIX = 'WIP: ';
+const DRAFT_PATTERN = /^\s*(wip:|\[wip\])\s*/i;
+
+/**
+ * Title with the draft prefix added or removed
+ */
+function withDraftState(title: string, draft: boolean): string {
+  const bare = title.replace(DRAFT_PATTERN, '');
+  return draft ? `${DRAFT_PREFIX}${bare}` : bare;
+}
+
+function toReviewState(review: ReviewData): PullRequestReview['state'] {
+  if (review.dismissed) {
+    return 'dismissed';
+  }
+  switch (review.state) {
+    case 'APPROVED':
+      return 'approved';
+    case 'REQUEST_CHANGES':
+      return 'changes_requested';
+    case 'PENDING':
+    case 'REQUEST_REVIEW':
+      return 'pending';
+    default:
+      return 'commented';
+  }
+}
+
+// Gitea can't filter the pull request list by head branch, so findPullRequestForBranch pages through
+const PAGE_SIZE = 50;
+const MAX_PAGES = 4;
+
+function createGiteaProvider({ repo, apiUrl, token }: ForgeProviderOptions): ForgeProvider {
+  const repoUrl = `${apiUrl}/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+  const headers = { Authorization: `token ${token}` };
+
+  function toPullRequestInfo(data: PullRequestData): PullRequestInfo {
+    const headRepo = data.head.repo;
+
+    return {
+      url: data.html_url,
+      number: data.number,
+      title: data.title,
+      body: data.body ?? '',
+      state: data.merged ? 'merged' : data.state,
+      draft: DRAFT_PATTERN.test(data.title),
+      baseRef: data.base.ref,
+      headRef: data.head.ref,
+      isFork: !headRepo || headRepo.full_name.toLowerCase() !== `${repo.owner}/${repo.name}`.toLowerCase(),
+      headOwner: headRepo ? headRepo.owner.login : null,
+      headCloneUrl: headRepo ? headRepo.clone_url : null,
+      headSshUrl: headRepo ? headRepo.ssh_url : null
+    };
+  }
+
+  async function listPulls(state: 'open' | 'all', limit: number, page: number): Promise<PullRequestData[]> {
+    const params = new URLSearchParams({ state, sort: 'recentupdate', limit: String(limit), page: String(page) });
+    return requestJson<PullRequestData[]>(`${repoUrl}/pulls?${params}`, { headers });
+  }
+
+  return {
+    kind: 'gitea',
+    repo,
+    apiUrl,
+
+    async getPullRequest(number) {
+      return toPullRequestInfo(await requestJson<PullRequestData>(`${repoUrl}/pulls/${number}`, { headers }));
+    },
+
+    async findPullRequestForBranch(branch, state = 'all') {
+      for (let page = 1; page <= MAX_PAGES; page++) {
+        const pulls = await listPulls(state, PAGE_SIZE, page);
+        const match = pulls.find(pr => pr.head.ref === branch && !toPullRequestInfo(pr).isFork);
+        if (match) {
+          return toPullRequestInfo(match);
+        }
+        if (pulls.length < PAGE_SIZE) {
+          break;
+        }
+      }
+      return null;
+    },
+
+    async listOpenPullRequests(limit = 30) {
+      return (await listPulls('open', limit, 1)).map(toPullRequestInfo);
+    },
+
+    async createPullRequest({ title, body, head, base, draft }) {
+      const data = await requestJson<PullRequestData>(`${repoUrl}/pulls`, {
+        method: 'POST',
+        headers,
+        body: {
+          title: draft && !title.startsWith(DRAFT_PREFIX) ? `${DRAFT_PREFIX}${title}` : title,
+          body,
+          head,
+          base
+        }
+      });
+      return { url: data.html_url, number: data.number, title: data.title };
+    },
+
+    async updatePullRequest(number, { title, body, draft }) {
+      const pullUrl = `${repoUrl}/pulls/${number}`;
+      const current = await requestJson<PullRequestData>(pullUrl, { headers });
+
+      let newTitle = title;
+      if (draft !== undefined) {
+        newTitle = withDraftState(title ?? current.title, draft);
+      } else if (title !== undefined && DRAFT_PATTERN.test(current.title)) {
+        // Keep a draft a draft when only the title changes
+        newTitle = withDraftState(title, true);
+      }
+
+      if (newTitle === undefined && body === undefined) {
+        return { url: current.html_url, number: current.number, title: current.title };
+      }
+
+      const data = await requestJson<PullRequestData>(pullUrl, {
+        method: 'PATCH',
+        headers,
+        body: { title: newTitle, body }
+      });
+      return { url: data.html_url, number: data.number, title: data.title };
+    },
+
+    async getPullRequestStatus(number) {
+      const data = await requestJson<PullRequestData>(`${repoUrl}/pulls/${number}`, { headers });
+
+      const [reviewData, combinedStatus, issueComments] = await Promise.all([
+        requestJson<ReviewData[]>(`${repoUrl}/pulls/${number}/reviews?limit=${PAGE_SIZE}`, { headers }),
+        requestJson<CombinedStatusData>(`${repoUrl}/commits/${encodeURIComponent(data.head.sha)}/status`, { headers }),
+        requestJson<CommentData[]>(`${repoUrl}/issues/${number}/comments`, { headers })
+      ]);
+
+      // Inline comments hang off the review they were submitted with
+      const reviewComments = await Promise.all(
+        reviewData
+          .filter(review => review.comments_count > 0)
+          .map(review => requestJson<CommentData[]>(`${repoUrl}/pulls/${number}/reviews/${review.id}/comments`, { headers }))
+      );
+
+      const reviews = latestReviews(reviewData.map(review => ({
+        author: review.user?.login ?? 'ghost',
+        state: toReviewState(review),
+        submittedAt: review.submitted_at
+      })));
+
+      const requestedReviewers = [
+        ...(data.requested_reviewers ?? []).map(user => user.login),
+        ...(data.requested_reviewers_teams ?? []).map(team => `${repo.owner}/${team.name}`)
+      ];
+
+      const checks: PullRequestCheck[] = combinedStatus.statuses.map(status => ({
+        name: status.context,
+        status: status.status === 'pending' ? 'queued' : 'completed',
+        conclusion: status.status === 'pending'
+          ? null
+          : status.status === 'success' ? 'success' : status.status === 'warning' ? 'neutral' : 'failure',
+        url: status.target_url || null
+      }));
+
+      const comments: PullRequestComment[] = [...issueComments, ...reviewComments.flat()]
+        .map(comment => ({
+          author: comment.user?.login ?? 'ghost',
+          body: comment.body,
+          createdAt: comment.created_at,
+          url: comment.html_url || null,
+          path: comment.path || null
+        }))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      return {
+        ...toPullRequestInfo(data),
+        headSha: data.head.sha,
+        reviewDecision: reviewDecision(reviews, requestedReviewers),
+        reviews,
+        requestedReviewers,
+        checks,
+        // Gitea only reports mergeable while the pull request is open
+        mergeable: data.state === 'open' ? data.mergeable ?? null : null,
+        mergeableState: null,
+        comments
+      };
+    },
+
+    pullRequestHeadRef(number) {
+      return `refs/pull/${number}/head`;
+    }
+  };
+}
+
+export const giteaForge: ForgeFactory = {
+  kind: 'gitea',
+  displayName: 'Gitea',
+  defaultApiUrl: (repo) => `${webBaseUrl(repo)}/api/v1`,
+  resolveToken: () => resolveToken(['GITEA_TOKEN', 'FORGEJO_TOKEN']),
+  authHelp: (host) => `Set GITEA_TOKEN (or FORGEJO_TOKEN) to an access token for ${host} with repository scope`,
+  create: createGiteaProvider
+};
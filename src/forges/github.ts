@@ -0,0 +1,250 @@
+import { Octokit } from '@octokit/rest';
+import { webBaseUrl } from '../utils/remote.js';
+import { resolveToken } from './http.js';
+import { latestReviews, reviewDecision } from './reviews.js';
+import {
+  ForgeFactory,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestCheck,
+  PullRequestInfo,
+  PullRequestReview,
+  ReviewDecision
+} from './types.js';
+
+interface PullRequestData {
+  html_url: string;
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  draft?: boolean;
+  merged_at: string | null;
+  base: { ref: string };
+  head: {
+    ref: string;
+    repo: { full_name: string; owner: { login: string }; clone_url: string; ssh_url: string } | null;
+  };
+}
+
+function toPullRequestInfo(data: PullRequestData, owner: string, repo: string): PullRequestInfo {
+  const headRepo = data.head.repo;
+
+  return {
+    url: data.html_url,
+    number: data.number,
+    title: data.title,
+    body: data.body ?? '',
+    state: data.merged_at ? 'merged' : data.state === 'open' ? 'open' : 'closed',
+    draft: data.draft ?? false,
+    baseRef: data.base.ref,
+    headRef: data.head.ref,
+    isFork: !headRepo || headRepo.full_name.toLowerCase() !== `${owner}/${repo}`.toLowerCase(),
+    headOwner: headRepo ? headRepo.owner.login : null,
+    headCloneUrl: headRepo ? headRepo.clone_url : null,
+    headSshUrl: headRepo ? headRepo.ssh_url : null
+  };
+}
+
+const REVIEW_STATES: Record<string, PullRequestReview['state']> = {
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'changes_requested',
+  COMMENTED: 'commented',
+  DISMISSED: 'dismissed',
+  PENDING: 'pending'
+};
+
+const REVIEW_DECISIONS: Record<string, ReviewDecision> = {
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'changes_requested',
+  REVIEW_REQUIRED: 'review_required'
+};
+
+/**
+ * Normalize a check run conclusion; anything that needs attention counts as a failure
+ */
+function checkConclusion(conclusion: string | null): PullRequestCheck['conclusion'] {
+  switch (conclusion) {
+    case null:
+      return null;
+    case 'success':
+    case 'neutral':
+    case 'cancelled':
+    case 'skipped':
+      return conclusion;
+    case 'stale':
+      return 'neutral';
+    default:
+      return 'failure';
+  }
+}
+
+function createGitHubProvider({ repo: remote, apiUrl, token }: ForgeProviderOptions): ForgeProvider {
+  const octokit = new Octokit({ auth: token, baseUrl: apiUrl });
+  const owner = remote.owner;
+  const repo = remote.name;
+
+  return {
+    kind: 'github',
+    repo: remote,
+    apiUrl,
+
+    async getPullRequest(number) {
+      const { data } = await octokit.pulls.get({ owner, repo, pull_number: number });
+      return toPullRequestInfo(data, owner, repo);
+    },
+
+    async findPullRequestForBranch(branch, state = 'all') {
+      const { data } = await octokit.pulls.list({
+        owner,
+        repo,
+        head: `${owner}:${branch}`,
+        state,
+        sort: 'updated',
+        direction: 'desc',
+        per_page: 1
+      });
+
+      return data.length > 0 ? toPullRequestInfo(data[0], owner, repo) : null;
+    },
+
+    async listOpenPullRequests(limit = 30) {
+      const { data } = await octokit.pulls.list({
+        owner,
+        repo,
+        state: 'open',
+        sort: 'updated',
+        direction: 'desc',
+        per_page: limit
+      });
+
+      return data.map(pr => toPullRequestInfo(pr, owner, repo));
+    },
+
+    async createPullRequest({ title, body, head, base, draft }) {
+      const { data } = await octokit.pulls.create({ owner, repo, title, body, head, base, draft });
+      return { url: data.html_url, number: data.number, title: data.title };
+    },
+
+    async updatePullRequest(number, { title, body, draft }) {
+      let { data } = await octokit.pulls.get({ owner, repo, pull_number: number });
+
+      if (title !== undefined || body !== undefined) {
+        ({ data } = await octokit.pulls.update({ owner, repo, pull_number: number, title, body }));
+      }
+
+      // The REST API can't change draft state; GraphQL has a mutation for each direction
+      if (draft !== undefined && draft !== (data.draft ?? false)) {
+        const mutation = draft
+          ? 'mutation($id: ID!) { convertPullRequestToDraft(input: {pullRequestId: $id}) { clientMutationId } }'
+          : 'mutation($id: ID!) { markPullRequestReadyForReview(input: {pullRequestId: $id}) { clientMutationId } }';
+        await octokit.graphql(mutation, { id: data.node_id });
+      }
+
+      return { url: data.html_url, number: data.number, title: data.title };
+    },
+
+    async getPullRequestStatus(number) {
+      const { data } = await octokit.pulls.get({ owner, repo, pull_number: number });
+      const sha = data.head.sha;
+
+      const [reviewData, checkRuns, combinedStatus, issueComments, reviewComments] = await Promise.all([
+        octokit.paginate(octokit.pulls.listReviews, { owner, repo, pull_number: number, per_page: 100 }),
+        octokit.checks.listForRef({ owner, repo, ref: sha, per_page: 100 }),
+        octokit.repos.getCombinedStatusForRef({ owner, repo, ref: sha, per_page: 100 }),
+        octokit.paginate(octokit.issues.listComments, { owner, repo, issue_number: number, per_page: 100 }),
+        octokit.paginate(octokit.pulls.listReviewComments, { owner, repo, pull_number: number, per_page: 100 })
+      ]);
+
+      const reviews = latestReviews(reviewData.map(review => ({
+        author: review.user?.login ?? 'ghost',
+        state: REVIEW_STATES[review.state] ?? 'commented',
+        submittedAt: review.submitted_at ?? null
+      })));
+
+      const requestedReviewers = [
+        ...(data.requested_reviewers ?? []).map(user => user.login),
+        ...(data.requested_teams ?? []).map(team => `${owner}/${team.slug}`)
+      ];
+
+      // reviewDecision honours branch protection but is only in GraphQL, and is null when no review is required
+      let decision: ReviewDecision | null = null;
+      try {
+        const result = await octokit.graphql<{ repository: { pullRequest: { reviewDecision: string | null } } }>(
+          'query($owner: String!, $repo: String!, $number: Int!) { ' +
+          'repository(owner: $owner, name: $repo) { pullRequest(number: $number) { reviewDecision } } }',
+          { owner, repo, number }
+        );
+        decision = REVIEW_DECISIONS[result.repository.pullRequest.reviewDecision ?? ''] ?? null;
+      } catch (error) {
+        // Token without GraphQL access; fall back to the reviews
+      }
+
+      const checks: PullRequestCheck[] = [
+        ...checkRuns.data.check_runs.map(run => ({
+          name: run.name,
+          status: run.status === 'completed' ? 'completed' as const : run.status === 'in_progress' ? 'in_progress' as const : 'queued' as const,
+          conclusion: run.status === 'completed' ? checkConclusion(run.conclusion) : null,
+          url: run.html_url ?? null
+        })),
+        // Commit statuses from integrations that don't use the checks API
+        ...combinedStatus.data.statuses.map(status => ({
+          name: status.context,
+          status: status.state === 'pending' ? 'queued' as const : 'completed' as const,
+          conclusion: status.state === 'pending' ? null : status.state === 'success' ? 'success' as const : 'failure' as const,
+          url: status.target_url ?? null
+        }))
+      ];
+
+      const comments = [
+        ...issueComments.map(comment => ({
+          author: comment.user?.login ?? 'ghost',
+          body: comment.body ?? '',
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          path: null
+        })),
+        ...reviewComments.map(comment => ({
+          author: comment.user?.login ?? 'ghost',
+          body: comment.body,
+          createdAt: comment.created_at,
+          url: comment.html_url,
+          path: comment.path
+        }))
+      ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      return {
+        ...toPullRequestInfo(data, owner, repo),
+        headSha: sha,
+        reviewDecision: decision ?? reviewDecision(reviews, requestedReviewers),
+        reviews,
+        requestedReviewers,
+        checks,
+        mergeable: data.mergeable,
+        mergeableState: data.mergeable_state,
+        comments
+      };
+    },
+
+    pullRequestHeadRef(number) {
+      return `refs/pull/${number}/head`;
+    }
+  };
+}
+
+const GITHUB_COM = 'github.com';
+
+export const githubForge: ForgeFactory = {
+  kind: 'github',
+  displayName: 'GitHub',
+  // GitHub Enterprise Server serves the REST API under /api/v3 on its own host
+  defaultApiUrl: (repo) => repo.host === GITHUB_COM ? 'https://api.github.com' : `${webBaseUrl(repo)}/api/v3`,
+  // Same variables gh uses: GH_ENTERPRISE_TOKEN / GITHUB_ENTERPRISE_TOKEN only apply to enterprise hosts
+  resolveToken: (host) => host === GITHUB_COM
+    ? resolveToken(['GITHUB_TOKEN', 'GH_TOKEN'], [`gh auth token --hostname ${GITHUB_COM}`])
+    : resolveToken(['GH_ENTERPRISE_TOKEN', 'GITHUB_ENTERPRISE_TOKEN'], [`gh auth token --hostname ${host}`]),
+  authHelp: (host) => host === GITHUB_COM
+    ? 'Either set GITHUB_TOKEN environment variable or run: gh auth login'
+    : `Either set GH_ENTERPRISE_TOKEN environment variable or run: gh auth login --hostname ${host}`,
+  create: createGitHubProvider
+};
@@ -0,0 +1,303 @@
+import { webBaseUrl } from '../utils/remote.js';
+import { requestJson, resolveToken } from './http.js';
+import {
+  ForgeFactory,
+  ForgeProvider,
+  ForgeProviderOptions,
+  PullRequestCheck,
+  PullRequestInfo,
+  PullRequestReview,
+  ReviewDecision
+} from './types.js';
+
+interface MergeRequestData {
+  web_url: string;
+  iid: number;
+  title: string;
+  description: string | null;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  /** GitLab 13.2+; older versions only have work_in_progress */
+  draft?: boolean;
+  work_in_progress?: boolean;
+  target_branch: string;
+  source_branch: string;
+  source_project_id: number | null;
+  target_project_id: number;
+  sha: string | null;
+  merge_status: string;
+  /** GitLab 15.6+ */
+  detailed_merge_status?: string;
+  reviewers?: { username: string }[];
+  head_pipeline?: { id: number; project_id: number } | null;
+}
+
+interface ApprovalsData {
+  approvals_left: number;
+  approved_by: { user: { username: string } }[];
+}
+
+interface ReviewerData {
+  user: { username: string };
+  state: string;
+}
+
+interface JobData {
+  name: string;
+  status: string;
+  allow_failure: boolean;
+  web_url: string;
+}
+
+interface NoteData {
+  id: number;
+  body: string;
+  author: { username: string };
+  created_at: string;
+  system: boolean;
+  position?: { new_path: string | null; old_path: string | null } | null;
+}
+
+interface ProjectData {
+  path_with_namespace: string;
+  namespace: { full_path: string };
+  http_url_to_repo: string;
+  ssh_url_to_repo: string;
+}
+
+// GitLab has no draft flag on older versions; the title prefix works everywhere
+const DRAFT_PREFIX = 'Draft: ';
+const DRAFT_PATTERN = /^\s*(draft:|\[draft\]|\(draft\)|wip:|\[wip\])\s*/i;
+
+// Merge statuses that mean GitLab hasn't decided yet
+const PENDING_MERGE_STATUSES = ['checking', 'unchecked', 'preparing', 'approvals_syncing', 'cannot_be_merged_recheck'];
+
+/**
+ * Title with the draft prefix added or removed
+ */
+function withDraftState(title: string, draft: boolean): string {
+  const bare = title.replace(DRAFT_PATTERN, '');
+  return draft ? `${DRAFT_PREFIX}${bare}` : bare;
+}
+
+/**
+ * Map a CI job status onto check status and conclusion
+ */
+function toCheck(job: JobData): PullRequestCheck {
+  const check: PullRequestCheck = { name: job.name, status: 'completed', conclusion: null, url: job.web_url };
+
+  switch (job.status) {
+    case 'running':
+      return { ...check, status: 'in_progress' };
+    case 'success':
+      return { ...check, conclusion: 'success' };
+    case 'failed':
+      return { ...check, conclusion: job.allow_failure ? 'neutral' : 'failure' };
+    case 'canceled':
+      return { ...check, conclusion: 'cancelled' };
+    case 'skipped':
+    case 'manual':
+      return { ...check, conclusion: 'skipped' };
+    default:
+      // created, pending, scheduled, preparing, waiting_for_resource
+      return { ...check, status: 'queued' };
+  }
+}
+
+function createGitLabProvider({ repo, apiUrl, token }: ForgeProviderOptions): ForgeProvider {
+  const projectUrl = `${apiUrl}/projects/${encodeURIComponent(`${repo.owner}/${repo.name}`)}`;
+  const headers = { 'PRIVATE-TOKEN': token };
+
+  /**
+   * Map a merge request; sourceProject is only looked up when the fork's clone URLs are needed
+   */
+  function toPullRequestInfo(mr: MergeRequestData, sourceProject: ProjectData | null = null): PullRequestInfo {
+    const isFork = mr.source_project_id !== mr.target_project_id;
+
+    return {
+      url: mr.web_url,
+      number: mr.iid,
+      title: mr.title,
+      body: mr.description ?? '',
+      state: mr.state === 'opened' ? 'open' : mr.state === 'merged' ? 'merged' : 'closed',
+      draft: mr.draft ?? mr.work_in_progress ?? DRAFT_PATTERN.test(mr.title),
+      baseRef: mr.target_branch,
+      headRef: mr.source_branch,
+      isFork,
+      headOwner: isFork ? sourceProject?.namespace.full_path ?? null : repo.owner,
+      headCloneUrl: sourceProject?.http_url_to_repo ?? null,
+      headSshUrl: sourceProject?.ssh_url_to_repo ?? null
+    };
+  }
+
+  return {
+    kind: 'gitlab',
+    repo,
+    apiUrl,
+
+    async getPullRequest(number) {
+      const mr = await requestJson<MergeRequestData>(`${projectUrl}/merge_requests/${number}`, { headers });
+
+      let sourceProject: ProjectData | null = null;
+      if (mr.source_project_id !== null) {
+        try {
+          sourceProject = await requestJson<ProjectData>(`${apiUrl}/projects/${mr.source_project_id}`, { headers });
+        } catch (error) {
+          // Source project deleted or not visible
+        }
+      }
+
+      return toPullRequestInfo(mr, sourceProject);
+    },
+
+    async findPullRequestForBranch(branch, state = 'all') {
+      const params = new URLSearchParams({
+        source_branch: branch,
+        state: state === 'open' ? 'opened' : 'all',
+        order_by: 'updated_at',
+        sort: 'desc',
+        per_page: '1'
+      });
+      const mrs = await requestJson<MergeRequestData[]>(`${projectUrl}/merge_requests?${params}`, { headers });
+      return mrs.length > 0 ? toPullRequestInfo(mrs[0]) : null;
+    },
+
+    async listOpenPullRequests(limit = 30) {
+      const params = new URLSearchParams({
+        state: 'opened',
+        order_by: 'updated_at',
+        sort: 'desc',
+        per_page: String(limit)
+      });
+      const mrs = await requestJson<MergeRequestData[]>(`${projectUrl}/merge_requests?${params}`, { headers });
+      return mrs.map(mr => toPullRequestInfo(mr));
+    },
+
+    async createPullRequest({ title, body, head, base, draft }) {
+      const mr = await requestJson<MergeRequestData>(`${projectUrl}/merge_requests`, {
+        method: 'POST',
+        headers,
+        body: {
+          source_branch: head,
+          target_branch: base,
+          title: draft && !title.startsWith(DRAFT_PREFIX) ? `${DRAFT_PREFIX}${title}` : title,
+          description: body
+        }
+      });
+      return { url: mr.web_url, number: mr.iid, title: mr.title };
+    },
+
+    async updatePullRequest(number, { title, body, draft }) {
+      const mrUrl = `${projectUrl}/merge_requests/${number}`;
+      const current = await requestJson<MergeRequestData>(mrUrl, { headers });
+
+      let newTitle = title;
+      if (draft !== undefined) {
+        newTitle = withDraftState(title ?? current.title, draft);
+      } else if (title !== undefined && DRAFT_PATTERN.test(current.title)) {
+        // Keep a draft a draft when only the title changes
+        newTitle = withDraftState(title, true);
+      }
+
+      if (newTitle === undefined && body === undefined) {
+        return { url: current.web_url, number: current.iid, title: current.title };
+      }
+
+      const mr = await requestJson<MergeRequestData>(mrUrl, {
+        method: 'PUT',
+        headers,
+        body: { title: newTitle, description: body }
+      });
+      return { url: mr.web_url, number: mr.iid, title: mr.title };
+    },
+
+    async getPullRequestStatus(number) {
+      const mrUrl = `${projectUrl}/merge_requests/${number}`;
+      const mr = await requestJson<MergeRequestData>(mrUrl, { headers });
+
+      const [approvals, notes] = await Promise.all([
+        requestJson<ApprovalsData>(`${mrUrl}/approvals`, { headers }),
+        requestJson<NoteData[]>(`${mrUrl}/notes?sort=asc&order_by=created_at&per_page=100`, { headers })
+      ]);
+
+      // Per-reviewer state is GitLab 16+; older versions only list who was asked
+      let reviewers: ReviewerData[];
+      try {
+        reviewers = await requestJson<ReviewerData[]>(`${mrUrl}/reviewers`, { headers });
+      } catch (error) {
+        reviewers = (mr.reviewers ?? []).map(user => ({ user, state: 'unreviewed' }));
+      }
+
+      const approvedBy = new Set(approvals.approved_by.map(a => a.user.username));
+      const reviews: PullRequestReview[] = [...approvedBy].map(author => ({ author, state: 'approved', submittedAt: null }));
+      const requestedReviewers: string[] = [];
+      for (const { user, state } of reviewers) {
+        if (approvedBy.has(user.username)) {
+          continue;
+        }
+        if (state === 'requested_changes') {
+          reviews.push({ author: user.username, state: 'changes_requested', submittedAt: null });
+        } else if (state === 'reviewed') {
+          reviews.push({ author: user.username, state: 'commented', submittedAt: null });
+        } else {
+          requestedReviewers.push(user.username);
+        }
+      }
+
+      let decision: ReviewDecision;
+      if (reviews.some(r => r.state === 'changes_requested')) {
+        decision = 'changes_requested';
+      } else if (approvals.approvals_left > 0 || (approvedBy.size === 0 && requestedReviewers.length > 0)) {
+        decision = 'review_required';
+      } else {
+        decision = approvedBy.size > 0 ? 'approved' : 'none';
+      }
+
+      // The head pipeline may run in the fork's project
+      let checks: PullRequestCheck[] = [];
+      if (mr.head_pipeline) {
+        const jobs = await requestJson<JobData[]>(
+          `${apiUrl}/projects/${mr.head_pipeline.project_id}/pipelines/${mr.head_pipeline.id}/jobs?per_page=100`,
+          { headers }
+        );
+        checks = jobs.map(toCheck);
+      }
+
+      const mergeableState = mr.detailed_merge_status ?? mr.merge_status;
+
+      return {
+        ...toPullRequestInfo(mr),
+        headSha: mr.sha,
+        reviewDecision: decision,
+        reviews,
+        requestedReviewers,
+        checks,
+        mergeable: PENDING_MERGE_STATUSES.includes(mergeableState)
+          ? null
+          : mergeableState === 'mergeable' || mergeableState === 'can_be_merged',
+        mergeableState,
+        comments: notes
+          .filter(note => !note.system)
+          .map(note => ({
+            author: note.author.username,
+            body: note.body,
+            createdAt: note.created_at,
+            url: `${mr.web_url}#note_${note.id}`,
+            path: note.position?.new_path ?? note.position?.old_path ?? null
+          }))
+      };
+    },
+
+    pullRequestHeadRef(number) {
+      return `refs/merge-requests/${number}/head`;
+    }
+  };
+}
+
+export const gitlabForge: ForgeFactory = {
+  kind: 'gitlab',
+  displayName: 'GitLab',
+  defaultApiUrl: (repo) => `${webBaseUrl(repo)}/api/v4`,
+  resolveToken: (host) => resolveToken(['GITLAB_TOKEN'], [`glab config get token --host ${host}`]),
+  authHelp: (host) => `Either set GITLAB_TOKEN environment variable or run: glab auth login --hostname ${host}`,
+  create: createGitLabProvider
+};
@@ -0,0 +1,71 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+export interface JsonRequest {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH';
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Send a JSON request to a forge API, throwing with the status and the API's message on failure
+ */
+export async function requestJson<T>(url: string, request: JsonRequest): Promise<T> {
+  const method = request.method ?? 'GET';
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Accept: 'application/json',
+      ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...request.headers
+    },
+    body: request.body !== undefined ? JSON.stringify(request.body) : undefined
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    let message = text.trim();
+    try {
+      const parsed = JSON.parse(text);
+      // GitLab: message, Gitea: message, Bitbucket: error.message
+      message = parsed.message ?? parsed.error?.message ?? parsed.error ?? message;
+      if (typeof message !== 'string') {
+        message = JSON.stringify(message);
+      }
+    } catch {
+      // Not JSON, keep the raw body
+    }
+    throw new Error(`${method} ${url} failed (${response.status})${message ? `: ${message}` : ''}`);
+  }
+
+  return (text ? JSON.parse(text) : null) as T;
+}
+
+/**
+ * Find an API token in the first set environment variable, then from the first CLI command that prints one
+ */
+export async function resolveToken(envVars: string[], commands: string[] = []): Promise<string | null> {
+  for (const name of envVars) {
+    const value = process.env[name]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+
+  for (const command of commands) {
+    try {
+      const { stdout } = await execAsync(command, { timeout: 5000 });
+      const token = stdout.trim();
+      if (token) {
+        return token;
+      }
+    } catch (error) {
+      // CLI not installed or not authenticated
+    }
+  }
+
+  return null;
+}
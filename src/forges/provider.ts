@@ -0,0 +1,70 @@
+import { getMainRepoRoot } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { getOriginUrl, parseRemoteUrl } from '../utils/remote.js';
+import { ForgeFactory, ForgeKind, ForgeProvider, FORGE_KINDS } from './types.js';
+import { githubForge } from './github.js';
+import { gitlabForge } from './gitlab.js';
+import { giteaForge } from './gitea.js';
+import { bitbucketForge } from './bitbucket.js';
+
+const FORGES: Record<ForgeKind, ForgeFactory> = {
+  github: githubForge,
+  gitlab: gitlabForge,
+  gitea: giteaForge,
+  bitbucket: bitbucketForge
+};
+
+/**
+ * Guess the forge from well-known hosts and host names (e.g. gitlab.example.com)
+ */
+export function detectForgeKind(host: string): ForgeKind | null {
+  if (host === 'github.com') {
+    return 'github';
+  }
+  if (host === 'bitbucket.org') {
+    return 'bitbucket';
+  }
+  if (host === 'codeberg.org' || /gitea|forgejo/.test(host)) {
+    return 'gitea';
+  }
+  if (host.includes('gitlab')) {
+    return 'gitlab';
+  }
+  if (host.includes('github')) {
+    return 'github';
+  }
+  return null;
+}
+
+/**
+ * Get an authenticated provider for the repository's origin. The forge and API URL
+ * come from `forge.hosts[<host>]`, then `forge` in .worktree-config, otherwise from the origin host
+ */
+export async function getForge(repoPath: string): Promise<ForgeProvider> {
+  const config = await loadConfig(await getMainRepoRoot(repoPath));
+
+  const originUrl = await getOriginUrl(repoPath);
+  const repo = parseRemoteUrl(originUrl);
+  if (!repo) {
+    throw new Error(`Could not parse origin remote URL: ${originUrl}`);
+  }
+
+  const hostSettings = Object.entries(config.forge.hosts ?? {})
+    .find(([host]) => host.toLowerCase() === repo.host)?.[1] ?? {};
+  const kind = hostSettings.provider ?? config.forge.provider ?? detectForgeKind(repo.host);
+  if (!kind) {
+    throw new Error(
+      `Could not tell which forge hosts ${repo.host}. ` +
+      `Set forge.provider (or forge.hosts["${repo.host}"].provider) in .worktree-config (${FORGE_KINDS.join(', ')})`
+    );
+  }
+
+  const forge = FORGES[kind];
+  const token = await forge.resolveToken(repo.host);
+  if (!token) {
+    throw new Error(`${forge.displayName} authentication required for ${repo.host}. ${forge.authHelp(repo.host)}`);
+  }
+
+  const apiUrl = (hostSettings.apiUrl ?? config.forge.apiUrl ?? forge.defaultApiUrl(repo)).replace(/\/+$/, '');
+  return forge.create({ repo, apiUrl, token });
+}
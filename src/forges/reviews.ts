@@ -0,0 +1,36 @@
+import { PullRequestReview, ReviewDecision } from './types.js';
+
+/**
+ * Keep each reviewer's latest review that carries a verdict; comments only count when a reviewer left nothing else
+ */
+export function latestReviews(reviews: PullRequestReview[]): PullRequestReview[] {
+  const byAuthor = new Map<string, PullRequestReview>();
+
+  for (const review of reviews) {
+    const previous = byAuthor.get(review.author);
+    if (review.state === 'pending') {
+      continue;
+    }
+    if (!previous || review.state !== 'commented' || previous.state === 'commented') {
+      byAuthor.set(review.author, review);
+    }
+  }
+
+  return [...byAuthor.values()];
+}
+
+/**
+ * Review decision from the latest reviews, for forges that don't report one
+ */
+export function reviewDecision(reviews: PullRequestReview[], requestedReviewers: string[]): ReviewDecision {
+  if (reviews.some(r => r.state === 'changes_requested')) {
+    return 'changes_requested';
+  }
+  if (reviews.some(r => r.state === 'approved')) {
+    return 'approved';
+  }
+  if (requestedReviewers.length > 0) {
+    return 'review_required';
+  }
+  return 'none';
+}
@@ -0,0 +1,136 @@
+import { RemoteRepo } from '../utils/remote.js';
+
+export type ForgeKind = 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+
+export const FORGE_KINDS: ForgeKind[] = ['github', 'gitlab', 'gitea', 'bitbucket'];
+
+export interface PullRequestResult {
+  url: string;
+  number: number;
+  title: string;
+}
+
+export interface PullRequestInfo {
+  url: string;
+  number: number;
+  title: string;
+  /** Description (markdown), empty when there is none */
+  body: string;
+  state: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  baseRef: string;
+  headRef: string;
+  /** True when the head branch lives in a fork rather than the origin repository */
+  isFork: boolean;
+  /** owner of the head repository, null when the fork has been deleted */
+  headOwner: string | null;
+  headCloneUrl: string | null;
+  headSshUrl: string | null;
+}
+
+export interface CreatePullRequestOptions {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  draft: boolean;
+}
+
+/**
+ * Fields to change on an existing pull request; omitted fields are left alone
+ */
+export interface UpdatePullRequestOptions {
+  title?: string;
+  body?: string;
+  draft?: boolean;
+}
+
+/**
+ * Overall review state, like GitHub's reviewDecision: changes requested wins over approvals
+ */
+export type ReviewDecision = 'approved' | 'changes_requested' | 'review_required' | 'none';
+
+export interface PullRequestReview {
+  author: string;
+  state: 'approved' | 'changes_requested' | 'commented' | 'dismissed' | 'pending';
+  submittedAt: string | null;
+}
+
+export interface PullRequestCheck {
+  name: string;
+  status: 'queued' | 'in_progress' | 'completed';
+  /** Normalized outcome of a completed check, null while it runs */
+  conclusion: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | null;
+  url: string | null;
+}
+
+export interface PullRequestComment {
+  author: string;
+  body: string;
+  createdAt: string;
+  url: string | null;
+  /** File an inline review comment is attached to, null for conversation comments */
+  path: string | null;
+}
+
+export interface PullRequestStatus extends PullRequestInfo {
+  headSha: string | null;
+  reviewDecision: ReviewDecision;
+  /** Latest review of each reviewer */
+  reviews: PullRequestReview[];
+  /** Reviewers (users or teams) asked to review who haven't yet */
+  requestedReviewers: string[];
+  checks: PullRequestCheck[];
+  /** Whether the forge can merge the pull request as is, null while it is still computing or unknown */
+  mergeable: boolean | null;
+  /** The forge's own mergeability detail, e.g. "blocked" or "behind" on GitHub */
+  mergeableState: string | null;
+  /** Conversation and inline review comments, oldest first */
+  comments: PullRequestComment[];
+}
+
+/**
+ * Everything a provider needs to talk to one repository. apiUrl is injectable
+ * so a provider can be pointed at a local HTTP stand-in
+ */
+export interface ForgeProviderOptions {
+  repo: RemoteRepo;
+  apiUrl: string;
+  token: string;
+}
+
+/**
+ * Pull request (merge request) operations of a code forge, scoped to one repository
+ */
+export interface ForgeProvider {
+  readonly kind: ForgeKind;
+  readonly repo: RemoteRepo;
+  /** API base URL requests are sent to */
+  readonly apiUrl: string;
+  getPullRequest(number: number): Promise<PullRequestInfo>;
+  /** Most recently updated pull request for a head branch; any state unless state is 'open' */
+  findPullRequestForBranch(branch: string, state?: 'open' | 'all'): Promise<PullRequestInfo | null>;
+  /** Open pull requests, most recently updated first */
+  listOpenPullRequests(limit?: number): Promise<PullRequestInfo[]>;
+  createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestResult>;
+  updatePullRequest(number: number, options: UpdatePullRequestOptions): Promise<PullRequestResult>;
+  /** Reviews, checks, mergeability and comments of a pull request */
+  getPullRequestStatus(number: number): Promise<PullRequestStatus>;
+  /** Ref on origin holding a pull request's head (e.g. refs/pull/N/head), or null if the forge has none */
+  pullRequestHeadRef(number: number): string | null;
+}
+
+/**
+ * A forge implementation: how to find its API and credentials for a host, and how to build a provider
+ */
+export interface ForgeFactory {
+  kind: ForgeKind;
+  displayName: string;
+  /** API base URL used when none is configured */
+  defaultApiUrl(repo: RemoteRepo): string;
+  /** Token for a host from the environment or the forge's CLI, null when not authenticated */
+  resolveToken(host: string): Promise<string | null>;
+  /** Shown when no token is found for a host */
+  authHelp(host: string): string;
+  create(options: ForgeProviderOptions): ForgeProvider;
+}
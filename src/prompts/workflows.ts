@@ -0,0 +1,216 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  Prompt
+} from '@modelcontextprotocol/sdk/types.js';
+import { getMainRepoRoot, listWorktrees, WorktreeInfo } from '../utils/git.js';
+import { getForge } from '../forges/provider.js';
+import { extractTicket } from '../utils/ticket.js';
+
+// MCP caps completion results at 100 values
+const MAX_COMPLETIONS = 100;
+
+const PROMPTS: Prompt[] = [
+  {
+    name: 'start_ticket',
+    description: 'Create a worktree for a ticket and outline the next steps',
+    arguments: [
+      { name: 'ticket', description: 'Ticket number (e.g., CO-4493)', required: true },
+      { name: 'description', description: 'What the ticket is about', required: true },
+      { name: 'baseBranch', description: 'Optional: Base branch (defaults to the configured base or origin/HEAD)' }
+    ]
+  },
+  {
+    name: 'ship_ticket',
+    description: 'Check status, sync with the base branch, push and open the PR for a ticket worktree',
+    arguments: [
+      { name: 'ticket', description: 'Ticket number of an existing worktree', required: true },
+      { name: 'draft', description: 'Optional: "true" to open the PR as a draft' }
+    ]
+  },
+  {
+    name: 'review_pr',
+    description: 'Check out a pull request into a worktree for review',
+    arguments: [
+      { name: 'pr', description: 'Pull request number', required: true }
+    ]
+  }
+];
+
+function userMessage(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text }
+      }
+    ]
+  };
+}
+
+function requireArgument(args: Record<string, string> | undefined, name: string): string {
+  const value = args?.[name]?.trim();
+  if (!value) {
+    throw new Error(`Missing required argument: ${name}`);
+  }
+  return value;
+}
+
+async function listLinkedWorktrees(): Promise<WorktreeInfo[]> {
+  try {
+    const worktrees = await listWorktrees(await getMainRepoRoot());
+    return worktrees.filter(worktree => !worktree.isMain);
+  } catch (error) {
+    // Server not started inside a git repository
+    return [];
+  }
+}
+
+async function listTicketWorktrees(): Promise<(WorktreeInfo & { ticket: string })[]> {
+  return (await listLinkedWorktrees()).flatMap(worktree => {
+    const ticket = extractTicket(worktree.branch ?? worktree.path);
+    return ticket ? [{ ...worktree, ticket }] : [];
+  });
+}
+
+function startTicketPrompt(args: Record<string, string> | undefined): GetPromptResult {
+  const ticket = requireArgument(args, 'ticket');
+  const description = requireArgument(args, 'description');
+  const baseBranch = args?.baseBranch?.trim();
+
+  return userMessage(`Start work on ${ticket}`, [
+    `Start work on ticket ${ticket}: ${description}`,
+    '',
+    `1. Call create_worktree with ticket "${ticket}" and a short branchName (2-4 words) summarizing the description` +
+      (baseBranch ? `, and baseBranch "${baseBranch}".` : '.') +
+      ' If an issue tracker is configured, branchName may be left out to derive it from the ticket title.',
+    '2. Check the result: report the worktree path and branch, whether dependencies were installed, ' +
+      'and any hook that failed.',
+    '3. Do all further work for this ticket inside the new worktree path.',
+    '4. Explore the code relevant to the description and outline a short implementation plan ' +
+      '(files to change, tests to add, open questions) before making changes.'
+  ].join('\n'));
+}
+
+async function shipTicketPrompt(args: Record<string, string> | undefined): Promise<GetPromptResult> {
+  const ticket = requireArgument(args, 'ticket');
+  const draft = args?.draft?.trim().toLowerCase() === 'true';
+  const matches = (await listTicketWorktrees()).filter(w => w.ticket === ticket);
+
+  const worktreeStep = matches.length === 1
+    ? `The worktree for ${ticket} is ${matches[0].path} (branch ${matches[0].branch}).`
+    : matches.length > 1
+      ? `There are several worktrees for ${ticket}: ${matches.map(w => w.path).join(', ')}. Ask which one to ship.`
+      : `Call list_worktrees and find the worktree for ${ticket}.`;
+
+  return userMessage(`Ship ${ticket}`, [
+    `Ship ticket ${ticket}.`,
+    '',
+    `1. ${worktreeStep}`,
+    '2. Call worktree_status. If there are uncommitted changes, review them and commit them with a clear message. ' +
+      'If an operation is in progress or files are conflicted, resolve that first.',
+    '3. Call sync_worktree to rebase onto the latest base branch. If it reports conflicts, resolve them, ' +
+      'stage the files and call sync_worktree with action "continue".',
+    '4. Call push_worktree. If sync_worktree rebased commits that were already pushed, pass forceWithLease: true. ' +
+      'If the push is rejected, follow the hint in the result before retrying.',
+    `5. Call create_pr${draft ? ' with draft: true' : ''} (the branch is already pushed). ` +
+      'If the branch already has an open PR, create_pr updates it instead.',
+    '6. Call pr_status and report the PR URL with its review decision, check results and any failing checks.'
+  ].join('\n'));
+}
+
+function reviewPrPrompt(args: Record<string, string> | undefined): GetPromptResult {
+  const pr = requireArgument(args, 'pr').replace(/^#/, '');
+  if (!/^\d+$/.test(pr)) {
+    throw new Error(`Invalid PR number: ${pr}`);
+  }
+
+  return userMessage(`Review PR #${pr}`, [
+    `Review pull request #${pr}.`,
+    '',
+    `1. Call checkout_worktree with pr ${pr}.`,
+    '2. Work inside the returned worktree path. Read the PR title, base branch and the diff against the base ' +
+      '(git diff <base>...HEAD).',
+    '3. Run the relevant tests in the worktree.',
+    '4. Summarize the change and list concrete review comments (bugs, missing tests, style), referencing files and lines.',
+    '5. When done, offer to remove the worktree with cleanup_worktree.'
+  ].join('\n'));
+}
+
+async function completeArgument(promptName: string, argumentName: string, value: string): Promise<string[]> {
+  if (argumentName === 'ticket') {
+    const tickets = [...new Set((await listTicketWorktrees()).map(w => w.ticket))];
+    return tickets.filter(ticket => ticket.toLowerCase().startsWith(value.toLowerCase()));
+  }
+
+  if (promptName === 'review_pr' && argumentName === 'pr') {
+    const prNumbers = new Set<string>();
+
+    // PRs already checked out (pr/<number>/... branches), then open PRs on the forge
+    for (const worktree of await listLinkedWorktrees()) {
+      const match = worktree.branch?.match(/^pr\/(\d+)\//);
+      if (match) {
+        prNumbers.add(match[1]);
+      }
+    }
+    try {
+      const forge = await getForge(await getMainRepoRoot());
+      for (const pr of await forge.listOpenPullRequests()) {
+        prNumbers.add(String(pr.number));
+      }
+    } catch (error) {
+      // No forge auth or unknown forge
+    }
+
+    return [...prNumbers].filter(number => number.startsWith(value.replace(/^#/, '')));
+  }
+
+  if (argumentName === 'draft') {
+    return ['true', 'false'].filter(option => option.startsWith(value));
+  }
+
+  return [];
+}
+
+/**
+ * Expose parameterized prompts for the standard ticket workflows, with argument completions
+ */
+export function registerWorkflowPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    switch (name) {
+      case 'start_ticket':
+        return startTicketPrompt(args);
+      case 'ship_ticket':
+        return shipTicketPrompt(args);
+      case 'review_pr':
+        return reviewPrPrompt(args);
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument } = request.params;
+    const values = ref.type === 'ref/prompt'
+      ? await completeArgument(ref.name, argument.name, argument.value)
+      : [];
+
+    return {
+      completion: {
+        values: values.slice(0, MAX_COMPLETIONS),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETIONS
+      }
+    };
+  });
+}
@@ -0,0 +1,219 @@
+import path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  Resource
+} from '@modelcontextprotocol/sdk/types.js';
+import { getMainRepoRoot, getRepoName, listWorktrees, getWorktreeStatus, WorktreeInfo } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { getBranchTicket } from '../utils/ticket.js';
+import { getForge } from '../forges/provider.js';
+
+const URI_SCHEME = 'worktree://';
+
+// How often subscribed worktrees are checked for state changes made outside this server
+const POLL_INTERVAL_MS = 15000;
+
+interface WorktreeEntry {
+  uri: string;
+  repoName: string;
+  mainRepoPath: string;
+  worktree: WorktreeInfo;
+}
+
+export interface WorktreeResources {
+  /** Remember a repository so its worktrees are listed as resources */
+  trackRepo(cwd?: string): Promise<void>;
+  /** Compare against the last known state and send list-changed / updated notifications */
+  checkForChanges(): Promise<void>;
+}
+
+/**
+ * Build the resource URI for a worktree: worktree://<repo>/<branch>,
+ * or worktree://<repo>/detached/<directory> when HEAD is detached
+ */
+export function worktreeUri(repoName: string, worktree: WorktreeInfo): string {
+  return worktree.branch
+    ? `${URI_SCHEME}${repoName}/${worktree.branch}`
+    : `${URI_SCHEME}${repoName}/detached/${path.basename(worktree.path)}`;
+}
+
+/**
+ * Expose every worktree of the tracked repositories as an MCP resource, with
+ * subscriptions that get `resources/updated` notifications when a worktree changes state
+ */
+export function registerWorktreeResources(server: Server): WorktreeResources {
+  const repos = new Set<string>();
+  // Subscribed URI -> fingerprint of the state last sent to the client
+  const subscriptions = new Map<string, string | null>();
+  let knownUris = new Set<string>();
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  async function collectEntries(): Promise<WorktreeEntry[]> {
+    const entries: WorktreeEntry[] = [];
+
+    for (const mainRepoPath of repos) {
+      try {
+        const repoName = await getRepoName(mainRepoPath);
+        for (const worktree of await listWorktrees(mainRepoPath)) {
+          if (!worktree.isMain) {
+            entries.push({ uri: worktreeUri(repoName, worktree), repoName, mainRepoPath, worktree });
+          }
+        }
+      } catch (error) {
+        // Repository was moved or deleted, stop tracking it
+        repos.delete(mainRepoPath);
+      }
+    }
+
+    return entries;
+  }
+
+  async function findEntry(uri: string): Promise<WorktreeEntry> {
+    const entry = (await collectEntries()).find(e => e.uri === uri);
+    if (!entry) {
+      throw new Error(`Unknown worktree resource: ${uri}`);
+    }
+    return entry;
+  }
+
+  /**
+   * Cheap state snapshot (no network) used to detect changes
+   */
+  async function fingerprint(entry: WorktreeEntry): Promise<string> {
+    if (entry.worktree.prunable !== undefined) {
+      return JSON.stringify({ head: entry.worktree.head, prunable: true });
+    }
+
+    const config = await loadConfig(entry.mainRepoPath);
+    const status = await getWorktreeStatus(entry.worktree.path, config.baseBranch);
+    return JSON.stringify({ head: entry.worktree.head, locked: entry.worktree.locked, status });
+  }
+
+  async function describe(entry: WorktreeEntry): Promise<Record<string, unknown>> {
+    const { worktree } = entry;
+    const config = await loadConfig(entry.mainRepoPath);
+    const status = worktree.prunable === undefined
+      ? await getWorktreeStatus(worktree.path, config.baseBranch)
+      : null;
+
+    const ticket = worktree.branch ? await getBranchTicket(entry.mainRepoPath, worktree.branch) : null;
+
+    let pullRequest = null;
+    if (worktree.branch) {
+      try {
+        pullRequest = await (await getForge(entry.mainRepoPath)).findPullRequestForBranch(worktree.branch);
+      } catch (error) {
+        // No forge auth or unknown forge
+      }
+    }
+
+    return {
+      uri: entry.uri,
+      repoName: entry.repoName,
+      mainRepoPath: entry.mainRepoPath,
+      path: worktree.path,
+      branch: worktree.branch ?? null,
+      head: worktree.head,
+      baseBranch: status?.base?.branch ?? null,
+      locked: worktree.locked ?? null,
+      prunable: worktree.prunable ?? null,
+      ticket,
+      pullRequest: pullRequest ? { number: pullRequest.number, url: pullRequest.url, state: pullRequest.state } : null,
+      status
+    };
+  }
+
+  function updatePolling(): void {
+    if (subscriptions.size > 0 && !pollTimer) {
+      pollTimer = setInterval(() => {
+        checkForChanges().catch(error => console.error('Failed to check worktree changes:', error));
+      }, POLL_INTERVAL_MS);
+      // Don't keep the process alive just for polling
+      pollTimer.unref();
+    } else if (subscriptions.size === 0 && pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = null;
+    }
+  }
+
+  async function trackRepo(cwd?: string): Promise<void> {
+    try {
+      repos.add(await getMainRepoRoot(cwd));
+    } catch (error) {
+      // Not inside a git repository
+    }
+  }
+
+  async function checkForChanges(): Promise<void> {
+    const entries = await collectEntries();
+    const uris = new Set(entries.map(e => e.uri));
+
+    if (uris.size !== knownUris.size || [...uris].some(uri => !knownUris.has(uri))) {
+      knownUris = uris;
+      await server.sendResourceListChanged();
+    }
+
+    for (const [uri, previous] of subscriptions) {
+      const entry = entries.find(e => e.uri === uri);
+      let current: string | null = null;
+      try {
+        current = entry ? await fingerprint(entry) : null;
+      } catch (error) {
+        // Worktree is mid-removal; treat as gone
+      }
+
+      if (current !== previous) {
+        subscriptions.set(uri, current);
+        await server.sendResourceUpdated({ uri });
+      }
+    }
+  }
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const entries = await collectEntries();
+    knownUris = new Set(entries.map(e => e.uri));
+
+    const resources: Resource[] = entries.map(entry => ({
+      uri: entry.uri,
+      name: entry.worktree.branch ?? path.basename(entry.worktree.path),
+      description: `Worktree of ${entry.repoName} at ${entry.worktree.path}`,
+      mimeType: 'application/json'
+    }));
+
+    return { resources };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const entry = await findEntry(request.params.uri);
+
+    return {
+      contents: [
+        {
+          uri: entry.uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(await describe(entry), null, 2)
+        }
+      ]
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const entry = await findEntry(uri);
+    subscriptions.set(uri, await fingerprint(entry));
+    updatePolling();
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    updatePolling();
+    return {};
+  });
+
+  return { trackRepo, checkForChanges };
+}
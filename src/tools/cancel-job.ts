@@ -0,0 +1,46 @@
+import { cancelJob, JobInfo } from './jobs.js';
+import { defineTool } from './tool.js';
+
+export interface CancelJobArgs {
+  jobId: string;
+}
+
+export interface CancelJobResult {
+  job: JobInfo;
+  message: string;
+}
+
+/**
+ * Cancel a background job
+ */
+export async function cancelJobTool(args: CancelJobArgs): Promise<CancelJobResult> {
+  const job = cancelJob(args.jobId);
+
+  const phase = job.phases[job.phases.length - 1];
+  const message = job.state !== 'running'
+    ? `ℹ️  Job ${job.jobId} already finished (${job.state})`
+    : `⏳ Cancelling job ${job.jobId}${phase ? ` during ${phase.name}` : ''}; ` +
+      'check job_status for when it stopped. Anything it already created (e.g. the worktree) is left in place ' +
+      'for cleanup_worktree';
+
+  return { job, message };
+}
+
+export const cancelJobDefinition = defineTool<CancelJobArgs, CancelJobResult>({
+  name: 'cancel_job',
+  description:
+    'Cancel a background job. It stops at the next phase (a running dependency install is killed); ' +
+    'a worktree that was already created is left in place.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      jobId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Job ID returned when the job was started'
+      }
+    },
+    required: ['jobId']
+  },
+  handler: cancelJobTool
+});
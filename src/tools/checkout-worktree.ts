@@ -0,0 +1,227 @@
+import { simpleGit } from 'simple-git';
+import { detectUsername } from '../utils/username.js';
+import { loadConfig, resolveWorktreePath } from '../utils/config.js';
+import { EDITOR_CHOICES, EditorChoice } from '../utils/ide.js';
+import { getForge } from '../forges/provider.js';
+import { ForgeProvider, PullRequestInfo } from '../forges/types.js';
+import { extractTicket } from '../utils/ticket.js';
+import { getMainRepoRoot, getRepoName, refExists, ensureRemote, checkoutWorktree } from '../utils/git.js';
+import { normalizeBranchName, setupWorktree, SETUP_PHASES, WorktreeSetupResult } from './create-worktree.js';
+import { defineTool, ToolContext } from './tool.js';
+
+export interface CheckoutWorktreeArgs {
+  branch?: string;
+  pr?: number;
+  ticket?: string;
+  cwd?: string;
+  openIde?: EditorChoice;
+}
+
+export interface CheckoutWorktreeResult extends WorktreeSetupResult {
+  worktreePath: string;
+  branchName: string;
+  trackingBranch: string | null;
+  source: 'local_branch' | 'remote_branch' | 'pull_request';
+  pullRequest?: PullRequestInfo;
+  username: string;
+  ticket: string;
+  repoName: string;
+}
+
+interface ResolvedCheckout {
+  localBranch: string;
+  startPoint?: string;
+  trackingBranch: string | null;
+  source: CheckoutWorktreeResult['source'];
+}
+
+/**
+ * Resolve a local or remote branch name to what should be checked out
+ */
+async function resolveBranch(mainRepoRoot: string, branch: string): Promise<ResolvedCheckout> {
+  const name = branch.replace(/^origin\//, '');
+
+  if (await refExists(mainRepoRoot, `refs/heads/${name}`)) {
+    return { localBranch: name, trackingBranch: null, source: 'local_branch' };
+  }
+
+  if (await refExists(mainRepoRoot, `refs/remotes/origin/${name}`)) {
+    return {
+      localBranch: name,
+      startPoint: `origin/${name}`,
+      trackingBranch: `origin/${name}`,
+      source: 'remote_branch'
+    };
+  }
+
+  throw new Error(`Branch "${name}" not found locally or on origin`);
+}
+
+/**
+ * Fetch a pull request's head and resolve what should be checked out
+ */
+async function resolvePullRequest(
+  mainRepoRoot: string,
+  forge: ForgeProvider,
+  pr: PullRequestInfo
+): Promise<ResolvedCheckout> {
+  const git = simpleGit(mainRepoRoot);
+
+  // Same-repo PR: the head branch is on origin
+  if (!pr.isFork) {
+    await git.fetch('origin', pr.headRef);
+    const resolved = await resolveBranch(mainRepoRoot, pr.headRef);
+    return { ...resolved, source: 'pull_request' };
+  }
+
+  const localBranch = `pr/${pr.number}/${normalizeBranchName(pr.headRef) || 'head'}`;
+  if (await refExists(mainRepoRoot, `refs/heads/${localBranch}`)) {
+    return { localBranch, trackingBranch: null, source: 'pull_request' };
+  }
+
+  // Fork PR: add the fork as a remote (matching origin's protocol) so the branch can track it
+  if (pr.headOwner && pr.headCloneUrl) {
+    const remotes = await git.getRemotes(true);
+    const originUrl = remotes.find(r => r.name === 'origin')?.refs.fetch ?? '';
+    const forkUrl = originUrl.startsWith('http') || !pr.headSshUrl ? pr.headCloneUrl : pr.headSshUrl;
+
+    await ensureRemote(mainRepoRoot, pr.headOwner, forkUrl);
+    await git.fetch(pr.headOwner, pr.headRef);
+
+    const trackingBranch = `${pr.headOwner}/${pr.headRef}`;
+    return { localBranch, startPoint: trackingBranch, trackingBranch, source: 'pull_request' };
+  }
+
+  // Fork was deleted: the forge's pull request ref on origin (refs/pull/N/head) is the only copy left
+  const headRef = forge.pullRequestHeadRef(pr.number);
+  if (!headRef) {
+    throw new Error(`The head repository of PR #${pr.number} was deleted and ${forge.kind} has no pull request refs to fetch it from`);
+  }
+  await git.fetch('origin', `+${headRef}:refs/remotes/origin/pr/${pr.number}`);
+  return {
+    localBranch,
+    startPoint: `origin/pr/${pr.number}`,
+    trackingBranch: null,
+    source: 'pull_request'
+  };
+}
+
+/**
+ * Check out an existing branch or a pull request into a new worktree
+ */
+export async function checkoutWorktreeTool(args: CheckoutWorktreeArgs, context?: ToolContext): Promise<CheckoutWorktreeResult> {
+  const { branch, pr, cwd, openIde } = args;
+
+  // Validate inputs
+  if ((!branch || !branch.trim()) && pr === undefined) {
+    throw new Error('Either branch or pr is required');
+  }
+
+  if (branch && pr !== undefined) {
+    throw new Error('Pass either branch or pr, not both');
+  }
+
+  if (pr !== undefined && (!Number.isInteger(pr) || pr <= 0)) {
+    throw new Error(`Invalid PR number: ${pr}`);
+  }
+
+  // Get main repository root
+  const mainRepoRoot = await getMainRepoRoot(cwd);
+
+  // Load per-repo config (.worktree-config)
+  const config = await loadConfig(mainRepoRoot);
+
+  // Detect username (the worktree lives under the current user, whoever owns the branch)
+  const usernameResult = await detectUsername(config.username);
+
+  // Get repository name
+  const repoName = await getRepoName(mainRepoRoot);
+
+  // Fetch latest changes
+  context?.phase('fetch', pr !== undefined ? `Fetching PR #${pr}` : 'Fetching origin');
+  await simpleGit(mainRepoRoot).fetch('origin');
+
+  let pullRequest: PullRequestInfo | undefined;
+  let resolved: ResolvedCheckout;
+  if (pr !== undefined) {
+    const forge = await getForge(mainRepoRoot);
+    pullRequest = await forge.getPullRequest(pr);
+    resolved = await resolvePullRequest(mainRepoRoot, forge, pullRequest);
+  } else {
+    resolved = await resolveBranch(mainRepoRoot, branch!.trim());
+  }
+
+  // Place it under the usual username/TICKET/branch layout
+  const sourceBranch = pullRequest ? pullRequest.headRef : resolved.localBranch;
+  const ticket = args.ticket?.trim()
+    || extractTicket(sourceBranch)
+    || (pullRequest && extractTicket(pullRequest.title))
+    || (pullRequest ? `PR-${pullRequest.number}` : undefined);
+
+  if (!ticket) {
+    throw new Error(`Could not derive a ticket from branch "${sourceBranch}". Pass ticket explicitly`);
+  }
+
+  const slug = normalizeBranchName(sourceBranch.split('/').pop() || sourceBranch) || 'branch';
+  const worktreePath = resolveWorktreePath(config, mainRepoRoot, repoName, {
+    username: usernameResult.username,
+    ticket,
+    branch: slug
+  });
+
+  // Create the worktree
+  context?.phase('create', `Creating ${worktreePath}`);
+  await checkoutWorktree(mainRepoRoot, worktreePath, resolved.localBranch, resolved.startPoint, resolved.trackingBranch !== null);
+
+  const setup = await setupWorktree(mainRepoRoot, worktreePath, resolved.localBranch, config, openIde, context);
+
+  return {
+    worktreePath,
+    branchName: resolved.localBranch,
+    trackingBranch: resolved.trackingBranch,
+    source: resolved.source,
+    pullRequest,
+    username: usernameResult.username,
+    ticket,
+    repoName,
+    ...setup
+  };
+}
+
+export const checkoutWorktreeDefinition = defineTool<CheckoutWorktreeArgs, CheckoutWorktreeResult>({
+  name: 'checkout_worktree',
+  description:
+    'Check out an existing local/remote branch or a pull request (merge request on GitLab) into a new worktree. ' +
+    'Fetches the right ref (including fork heads and refs/pull/N/head or refs/merge-requests/N/head), sets up tracking, ' +
+    'and places the worktree under ../<repo-name>-worktrees/username/TICKET/branch-name. ' +
+    'Sends a progress notification per phase; with background: true it returns a job ID for job_status instead of waiting.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      branch: {
+        type: 'string',
+        description: 'Local or remote branch name (e.g., "alice/CO-4493/billing" or "origin/feature-x")'
+      },
+      pr: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Pull request (merge request) number (use instead of branch)'
+      },
+      ticket: {
+        type: 'string',
+        description: 'Optional: Ticket for the worktree path (derived from the branch or PR when omitted)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory (defaults to current directory)'
+      },
+      openIde: {
+        type: 'string',
+        enum: EDITOR_CHOICES,
+        description: 'Optional: Open worktree in IDE after creation'
+      }
+    }
+  },
+  handler: checkoutWorktreeTool,
+  phases: ['fetch', 'create', ...SETUP_PHASES]
+});
@@ -0,0 +1,137 @@
+import fs from 'fs/promises';
+import { getUnsavedWork, PreservedWork } from '../utils/git.js';
+import { resolveWorkspace, findWorkspaceMembers, WorkspaceMember } from '../utils/workspace.js';
+import { defineTool } from './tool.js';
+import { cleanupWorktreeTool, CleanupWorktreeResult } from './cleanup-worktree.js';
+
+export interface CleanupWorkspaceArgs {
+  ticket: string;
+  deleteBranch?: boolean;
+  force?: boolean;
+  preserve?: PreservedWork['method'];
+  workspace?: string;
+  cwd?: string;
+}
+
+export interface CleanedWorkspaceMember extends WorkspaceMember {
+  result?: CleanupWorktreeResult;
+  error?: string;
+}
+
+export interface CleanupWorkspaceResult {
+  workspace: string;
+  ticket: string;
+  worktrees: CleanedWorkspaceMember[];
+  message: string;
+}
+
+/**
+ * Remove a ticket's worktrees from every repository of a workspace. Unless preserve or force is passed,
+ * unsaved work in any of them stops the whole workspace from being removed, so it is never left half cleaned up
+ */
+export async function cleanupWorkspaceTool(args: CleanupWorkspaceArgs): Promise<CleanupWorkspaceResult> {
+  const { ticket, deleteBranch, force = false, preserve, workspace: workspaceName, cwd } = args;
+
+  const workspace = await resolveWorkspace(cwd, workspaceName);
+  const { members } = await findWorkspaceMembers(workspace, ticket.trim());
+  if (members.length === 0) {
+    throw new Error(`No worktrees for ${ticket.trim()} in workspace ${workspace.name}`);
+  }
+
+  // Check every worktree before removing any
+  if (!force && !preserve) {
+    const unsaved: string[] = [];
+    for (const member of members) {
+      const exists = await fs.access(member.worktreePath).then(() => true, () => false);
+      if (!exists) {
+        continue;
+      }
+      const work = await getUnsavedWork(member.worktreePath);
+      const counts = [
+        work.uncommitted.length > 0 ? `${work.uncommitted.length} uncommitted` : '',
+        work.untracked.length > 0 ? `${work.untracked.length} untracked` : '',
+        work.unpushed.length > 0 ? `${work.unpushed.length} unpushed commit(s)` : ''
+      ].filter(Boolean);
+      if (counts.length > 0) {
+        unsaved.push(`  ${member.repoName}: ${member.worktreePath} (${counts.join(', ')})`);
+      }
+    }
+    if (unsaved.length > 0) {
+      throw new Error(
+        `Refusing to remove workspace ${workspace.name} for ${ticket.trim()}: worktrees have unsaved work\n` +
+        `${unsaved.join('\n')}\n` +
+        'Commit and push it, pass preserve ("stash", "patch" or "bundle") to save it first, ' +
+        'or pass force: true to discard it.'
+      );
+    }
+  }
+
+  const worktrees: CleanedWorkspaceMember[] = [];
+  for (const member of members) {
+    try {
+      const result = await cleanupWorktreeTool({
+        worktreePath: member.worktreePath,
+        deleteBranch,
+        force,
+        preserve,
+        cwd: member.mainRepoPath
+      });
+      worktrees.push({ ...member, result });
+    } catch (error) {
+      worktrees.push({ ...member, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const failed = worktrees.filter(worktree => worktree.error);
+  const branchErrors = worktrees.filter(worktree => worktree.result?.branchDeleteError);
+  let message = failed.length === 0
+    ? `✅ Removed ${worktrees.length} worktree(s) of workspace ${workspace.name} for ${ticket.trim()}`
+    : `⚠️  Removed ${worktrees.length - failed.length} of ${worktrees.length} worktree(s):\n` +
+      failed.map(worktree => `  ${worktree.repoName}: ${worktree.error}`).join('\n');
+  if (branchErrors.length > 0) {
+    message += `\n⚠️  Kept the branch in ${branchErrors.map(worktree => worktree.repoName).join(', ')} (see branchDeleteError)`;
+  }
+
+  return { workspace: workspace.name, ticket: ticket.trim(), worktrees, message };
+}
+
+export const cleanupWorkspaceDefinition = defineTool<CleanupWorkspaceArgs, CleanupWorkspaceResult>({
+  name: 'cleanup_workspace',
+  description:
+    'Remove a ticket\'s worktrees from every repository of a workspace, as cleanup_worktree does, and optionally delete the branches. ' +
+    'Checks all of them first: unless preserve or force is passed, unsaved work in any worktree leaves the whole workspace in place.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ticket: {
+        type: 'string',
+        minLength: 1,
+        description: 'Ticket the workspace worktrees were created for (e.g., CO-4493)'
+      },
+      deleteBranch: {
+        type: 'boolean',
+        description: 'Optional: Also delete the local branches (default: false)'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Optional: Remove even with uncommitted, untracked or unpushed work, and force-delete the branches (default: false)'
+      },
+      preserve: {
+        type: 'string',
+        enum: ['stash', 'patch', 'bundle'],
+        description: 'Optional: Save unsaved work in each worktree before removing it (see cleanup_worktree)'
+      },
+      workspace: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Workspace name from .worktree-config (defaults to the only configured one)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory inside the repo the workspace is configured in (defaults to current directory)'
+      }
+    },
+    required: ['ticket']
+  },
+  handler: cleanupWorkspaceTool
+});
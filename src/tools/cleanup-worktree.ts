@@ -1,10 +1,26 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { getMainRepoRoot, removeWorktree, deleteBranch } from '../utils/git.js';
+import {
+  getMainRepoRoot,
+  getRepoName,
+  listWorktrees,
+  removeWorktree,
+  deleteBranch,
+  getUnsavedWork,
+  preserveWork,
+  UnsavedWork,
+  PreservedWork
+} from '../utils/git.js';
+import { loadConfig, resolveWorktreeRoot } from '../utils/config.js';
+import { runHooks, HookResult } from '../utils/hooks.js';
+import { releaseResources, Allocation } from '../utils/allocation.js';
+import { defineTool } from './tool.js';
 
 export interface CleanupWorktreeArgs {
   worktreePath: string;
   deleteBranch?: boolean;
+  force?: boolean;
+  preserve?: PreservedWork['method'];
   cwd?: string;
 }
 
@@ -13,18 +29,48 @@ export interface CleanupWorktreeResult {
   worktreePath: string;
   branchName?: string;
   branchDeleted: boolean;
+  branchDeleteError?: string;
+  unsavedWork?: UnsavedWork;
+  preserved?: PreservedWork;
   directoriesRemoved: string[];
+  /** Port block and resource suffix freed for other worktrees */
+  allocationReleased?: Allocation;
+  hooks: HookResult[];
+}
+
+// Keep refusal messages readable for worktrees with many changes
+const MAX_LISTED_ITEMS = 20;
+
+function describeList(title: string, items: string[]): string {
+  if (items.length === 0) {
+    return '';
+  }
+  const listed = items.slice(0, MAX_LISTED_ITEMS).map(item => `    ${item}`);
+  if (items.length > MAX_LISTED_ITEMS) {
+    listed.push(`    ... and ${items.length - MAX_LISTED_ITEMS} more`);
+  }
+  return `  ${title} (${items.length}):\n${listed.join('\n')}\n`;
+}
+
+function hasUnsavedWork(work: UnsavedWork): boolean {
+  return work.uncommitted.length > 0 || work.untracked.length > 0 || work.unpushed.length > 0;
 }
 
 /**
- * Remove a worktree and optionally delete its branch
+ * Remove a worktree and optionally delete its branch.
+ * Refuses when the worktree has uncommitted, untracked or unpushed work unless it is
+ * preserved first or force is passed.
  */
 export async function cleanupWorktreeTool(args: CleanupWorktreeArgs): Promise<CleanupWorktreeResult> {
-  const { worktreePath, deleteBranch: shouldDeleteBranch = false, cwd } = args;
+  const { worktreePath, deleteBranch: shouldDeleteBranch = false, force = false, preserve, cwd } = args;
 
   // Get main repository root
   const mainRepoPath = await getMainRepoRoot(cwd);
 
+  // Resolve the configured worktrees root so we never walk above it
+  const config = await loadConfig(mainRepoPath);
+  const worktreesRoot = resolveWorktreeRoot(config, mainRepoPath, await getRepoName(mainRepoPath));
+
   // Get branch name before removing worktree
   let branchName: string | undefined;
   try {
@@ -32,34 +78,80 @@ export async function cleanupWorktreeTool(args: CleanupWorktreeArgs): Promise<Cl
     const git = simpleGit(worktreePath);
     branchName = await git.revparse(['--abbrev-ref', 'HEAD']);
   } catch (error) {
-    // Couldn't get branch name, might be already deleted
+    // Couldn't get branch name, might be already deleted; git still knows it if the entry is prunable
+    const entry = (await listWorktrees(mainRepoPath)).find(w => path.resolve(w.path) === path.resolve(worktreePath));
+    branchName = entry?.branch;
   }
 
-  // Remove the worktree
-  await removeWorktree(mainRepoPath, worktreePath);
+  const worktreeExists = await fs.access(worktreePath).then(() => true, () => false);
+
+  // Check for work that removal would destroy, and refuse unless it is to be saved or discarded
+  let unsavedWork: UnsavedWork | undefined;
+  if (worktreeExists) {
+    unsavedWork = await getUnsavedWork(worktreePath);
+
+    if (hasUnsavedWork(unsavedWork) && !preserve && !force) {
+      throw new Error(
+        `Refusing to remove ${worktreePath}: it has unsaved work\n` +
+        describeList('Uncommitted changes', unsavedWork.uncommitted) +
+        describeList('Untracked files', unsavedWork.untracked) +
+        describeList('Unpushed commits', unsavedWork.unpushed) +
+        'Commit and push it, pass preserve ("stash", "patch" or "bundle") to save it first, ' +
+        'or pass force: true to discard it.'
+      );
+    }
+  }
 
-  // Delete branch if requested
+  // Run preCleanup hooks inside the worktree (e.g. docker compose down); a failure aborts cleanup.
+  // They run before the work is preserved, so a failing hook leaves the worktree untouched
+  const hookContext = { worktreePath, mainRepoPath, branchName };
+  const hooks: HookResult[] = worktreeExists
+    ? await runHooks('preCleanup', config.hooks.preCleanup, { ...hookContext, cwd: worktreePath })
+    : [];
+
+  // Save the work (stash, patch or bundle) only once nothing can stop the removal
+  let preserved: PreservedWork | undefined;
+  if (preserve && unsavedWork && hasUnsavedWork(unsavedWork)) {
+    const backupDir = path.join(worktreesRoot, '.backups');
+    preserved = await preserveWork(worktreePath, preserve, backupDir, branchName || path.basename(worktreePath));
+  }
+
+  // Remove the worktree (anything left behind was either preserved or explicitly forced)
+  await removeWorktree(mainRepoPath, worktreePath, force || preserved !== undefined);
+
+  // Free the worktree's ports for the next one; the registry also reclaims blocks of worktrees removed by hand
+  let allocationReleased: Allocation | undefined;
+  try {
+    allocationReleased = await releaseResources(worktreesRoot, worktreePath) ?? undefined;
+  } catch (error) {
+    console.error('Failed to release allocated ports:', error);
+  }
+
+  // Delete branch if requested; unmerged branches are only force-deleted when forced
+  // or when their unpushed commits were saved to a patch/bundle
   let branchDeleted = false;
+  let branchDeleteError: string | undefined;
   if (shouldDeleteBranch && branchName) {
     try {
-      await deleteBranch(mainRepoPath, branchName);
+      await deleteBranch(mainRepoPath, branchName, force || (preserved !== undefined && preserved.method !== 'stash'));
       branchDeleted = true;
     } catch (error) {
-      // Branch might not exist or already deleted
-      console.error(`Failed to delete branch ${branchName}:`, error);
+      // Branch might not exist, or isn't fully merged
+      branchDeleteError = error instanceof Error ? error.message : String(error);
     }
   }
 
   // Clean up empty parent directories
   const directoriesRemoved: string[] = [];
-  let currentDir = path.dirname(worktreePath);
+  let currentDir = path.dirname(path.resolve(worktreePath));
 
   // Walk up the directory tree and remove empty directories
-  // Stop at the worktrees base directory or home directory
+  // Stop at the worktrees root directory or home directory
   while (
     currentDir !== '/' &&
     currentDir !== process.env.HOME &&
-    currentDir.includes('-worktrees')
+    currentDir !== worktreesRoot &&
+    currentDir.startsWith(worktreesRoot + path.sep)
   ) {
     try {
       const entries = await fs.readdir(currentDir);
@@ -77,11 +169,56 @@ export async function cleanupWorktreeTool(args: CleanupWorktreeArgs): Promise<Cl
     }
   }
 
+  // Run postCleanup hooks from the main repo, since the worktree no longer exists
+  hooks.push(...await runHooks('postCleanup', config.hooks.postCleanup, { ...hookContext, cwd: mainRepoPath }));
+
   return {
     removed: true,
     worktreePath,
     branchName,
     branchDeleted,
-    directoriesRemoved
+    branchDeleteError,
+    unsavedWork,
+    preserved,
+    directoriesRemoved,
+    allocationReleased,
+    hooks
   };
 }
+
+export const cleanupWorktreeDefinition = defineTool<CleanupWorktreeArgs, CleanupWorktreeResult>({
+  name: 'cleanup_worktree',
+  description:
+    'Remove a git worktree and optionally delete its branch. ' +
+    'Refuses when the worktree has uncommitted, untracked or unpushed work unless preserve or force is passed. ' +
+    'Releases the worktree\'s allocated ports and automatically cleans up empty parent directories.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the worktree to remove'
+      },
+      deleteBranch: {
+        type: 'boolean',
+        description: 'Optional: Also delete the local branch (default: false)'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Optional: Remove even with uncommitted, untracked or unpushed work, and force-delete the branch (default: false)'
+      },
+      preserve: {
+        type: 'string',
+        enum: ['stash', 'patch', 'bundle'],
+        description: 'Optional: Save unsaved work before removing (stash entry, patch files or git bundle under <worktrees-root>/.backups)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory (defaults to current directory)'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: cleanupWorktreeTool
+});
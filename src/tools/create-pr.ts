@@ -1,37 +1,190 @@
-import { createPullRequest, generatePRContent, PullRequestResult } from '../utils/github.js';
+import { getMainRepoRoot, getCurrentBranch, resolveBaseBranch, BaseBranch } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { runHooks, HookResult } from '../utils/hooks.js';
+import { generatePRContent } from '../utils/pr-content.js';
+import { getBranchTicket } from '../utils/ticket.js';
+import { getForge } from '../forges/provider.js';
+import { PullRequestResult } from '../forges/types.js';
+import { defineTool } from './tool.js';
+import { pushWorktreeTool, PushWorktreeResult } from './push-worktree.js';
 
 export interface CreatePRArgs {
   worktreePath: string;
   title?: string;
   body?: string;
   draft?: boolean;
+  baseBranch?: string;
+  template?: string;
+  push?: boolean;
+  remote?: string;
+  forceWithLease?: boolean;
 }
 
 export interface CreatePRResult extends PullRequestResult {
+  /** 'updated'/'unchanged' when the branch already had an open PR */
+  action: 'created' | 'updated' | 'unchanged';
   worktreePath: string;
+  baseBranch: BaseBranch;
+  /** PR template filled in for the generated body, null when none was used */
+  template: string | null;
+  /** Result of pushing the branch first, null when push was disabled */
+  push: PushWorktreeResult | null;
+  hooks: HookResult[];
 }
 
 /**
- * Create a GitHub pull request from the current worktree
+ * Create a pull request (merge request on GitLab) from the current worktree, or update the branch's open one
  */
 export async function createPRTool(args: CreatePRArgs): Promise<CreatePRResult> {
-  const { worktreePath, title, body, draft = false } = args;
+  const { worktreePath, title, body, draft, baseBranch, template, push = true, remote, forceWithLease } = args;
+
+  const mainRepoPath = await getMainRepoRoot(worktreePath);
+  const config = await loadConfig(mainRepoPath);
+  const branchName = await getCurrentBranch(worktreePath);
+
+  // Resolve the base once so commit listing and the PR target agree
+  const base = await resolveBaseBranch(worktreePath, {
+    explicit: baseBranch,
+    branchName,
+    configured: config.baseBranch
+  });
+
+  if (branchName === base.name || branchName === 'master' || branchName === 'main') {
+    throw new Error(`Cannot create PR from base branch ${branchName}`);
+  }
+
+  // Run prePR hooks (lint, tests, ...); a failure aborts before anything is sent to the forge
+  const hooks = await runHooks('prePR', config.hooks.prePR, {
+    cwd: worktreePath,
+    worktreePath,
+    mainRepoPath,
+    branchName
+  });
+
+  // The forge can only open a PR for a branch it has
+  let pushResult: PushWorktreeResult | null = null;
+  if (push) {
+    pushResult = await pushWorktreeTool({ worktreePath, remote, forceWithLease });
+    if (pushResult.status === 'rejected') {
+      throw new Error(pushResult.message);
+    }
+  }
+
+  const forge = await getForge(worktreePath);
+  const head = pushResult?.remoteBranch ?? branchName;
+
+  // A second create_pr on the branch updates its open PR with whatever was passed explicitly
+  const existing = await forge.findPullRequestForBranch(head, 'open');
+  if (existing) {
+    const changed = title !== undefined || body !== undefined || (draft !== undefined && draft !== existing.draft);
+    const result = changed
+      ? await forge.updatePullRequest(existing.number, { title, body, draft })
+      : { url: existing.url, number: existing.number, title: existing.title };
+
+    return {
+      ...result,
+      action: changed ? 'updated' : 'unchanged',
+      worktreePath,
+      baseBranch: base,
+      template: null,
+      push: pushResult,
+      hooks
+    };
+  }
 
   let prTitle = title;
   let prBody = body;
+  let usedTemplate: string | null = null;
 
-  // If title/body not provided, generate from commits
+  // If title/body not provided, generate from commits, the PR template and the ticket
   if (!prTitle || !prBody) {
-    const generated = await generatePRContent(worktreePath);
+    const generated = await generatePRContent(worktreePath, {
+      baseRef: base.ref,
+      ticketUrl: config.ticketUrl,
+      ticketInfo: await getBranchTicket(worktreePath, branchName) ?? undefined,
+      titleTemplate: config.prTitleTemplate,
+      template: template ?? config.prTemplate
+    });
     prTitle = prTitle || generated.title;
-    prBody = prBody || generated.body;
+    if (!prBody) {
+      prBody = generated.body;
+      usedTemplate = generated.template;
+    }
   }
 
   // Create the PR
-  const result = await createPullRequest(worktreePath, prTitle, prBody, draft);
+  const result = await forge.createPullRequest({
+    title: prTitle,
+    body: prBody || '',
+    head,
+    base: base.name,
+    draft: draft ?? false
+  });
 
   return {
     ...result,
-    worktreePath
+    action: 'created',
+    worktreePath,
+    baseBranch: base,
+    template: usedTemplate,
+    push: pushResult,
+    hooks
   };
 }
+
+export const createPRDefinition = defineTool<CreatePRArgs, CreatePRResult>({
+  name: 'create_pr',
+  description:
+    'Create a pull request (GitHub, Gitea/Forgejo, Bitbucket) or merge request (GitLab) from the current worktree. ' +
+    'Pushes the branch with upstream tracking first (see push_worktree). ' +
+    'If the branch already has an open PR, updates its title, body or draft state with the values passed instead. ' +
+    'Auto-generates the title ([TICKET] summary) and body (repository PR template, ticket link, ' +
+    'commits grouped by conventional-commit type, diffstat) if not provided. ' +
+    'The forge is detected from the origin URL or set in .worktree-config; requires its token ' +
+    '(GITHUB_TOKEN or gh CLI, GITLAB_TOKEN or glab CLI, GITEA_TOKEN, BITBUCKET_TOKEN).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the worktree'
+      },
+      title: {
+        type: 'string',
+        description: 'Optional: PR title (defaults to "[TICKET] summary")'
+      },
+      body: {
+        type: 'string',
+        description: 'Optional: PR body (generated from the PR template, ticket, commits and diffstat if not provided)'
+      },
+      draft: {
+        type: 'boolean',
+        description: 'Optional: Create as draft PR (default: false). On an existing PR, converts it to or from a draft'
+      },
+      baseBranch: {
+        type: 'string',
+        description: 'Optional: Base branch for the PR. Defaults to the branch the worktree was created from'
+      },
+      push: {
+        type: 'boolean',
+        description: 'Optional: Push the branch before creating the PR (default: true)'
+      },
+      remote: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Remote to push to (default: origin)'
+      },
+      forceWithLease: {
+        type: 'boolean',
+        description: 'Optional: Push with --force-with-lease, e.g. after a rebase (default: false)'
+      },
+      template: {
+        type: 'string',
+        description: 'Optional: Named PR template from .github/PULL_REQUEST_TEMPLATE/ (defaults to prTemplate in .worktree-config, then .github/pull_request_template.md)'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: createPRTool
+});
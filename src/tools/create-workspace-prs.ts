@@ -0,0 +1,133 @@
+import { resolveWorkspace, findWorkspaceMembers, WorkspaceMember, WorkspaceRepo } from '../utils/workspace.js';
+import { getForge } from '../forges/provider.js';
+import { defineTool } from './tool.js';
+import { createPRTool, CreatePRResult } from './create-pr.js';
+
+export interface CreateWorkspacePRsArgs {
+  ticket: string;
+  draft?: boolean;
+  workspace?: string;
+  cwd?: string;
+}
+
+export interface WorkspacePR extends WorkspaceMember {
+  pr?: CreatePRResult;
+  /** The PR body now links the workspace's other PRs */
+  linked: boolean;
+  /** Set when the PR couldn't be created, or its links couldn't be written */
+  error?: string;
+}
+
+export interface CreateWorkspacePRsResult {
+  workspace: string;
+  ticket: string;
+  pullRequests: WorkspacePR[];
+  missing: WorkspaceRepo[];
+  message: string;
+}
+
+// Marks the part of a PR body this tool owns, so running it again replaces the links instead of adding more
+const LINKS_START = '<!-- workspace-links -->';
+const LINKS_END = '<!-- /workspace-links -->';
+
+/**
+ * Put the links section into a PR body, replacing an earlier one and keeping everything else
+ */
+function withWorkspaceLinks(body: string, links: string): string {
+  const section = `${LINKS_START}\n${links}\n${LINKS_END}`;
+  const start = body.indexOf(LINKS_START);
+  const end = body.indexOf(LINKS_END, start);
+  if (start !== -1 && end !== -1) {
+    return body.slice(0, start) + section + body.slice(end + LINKS_END.length);
+  }
+  return body.trim() ? `${body.trimEnd()}\n\n${section}\n` : `${section}\n`;
+}
+
+/**
+ * Open (or update) a pull request for each of a ticket's workspace worktrees, then link every PR to the others
+ */
+export async function createWorkspacePRsTool(args: CreateWorkspacePRsArgs): Promise<CreateWorkspacePRsResult> {
+  const { ticket, draft, workspace: workspaceName, cwd } = args;
+
+  const workspace = await resolveWorkspace(cwd, workspaceName);
+  const { members, missing } = await findWorkspaceMembers(workspace, ticket.trim());
+  const live = members.filter(member => !member.prunable);
+  if (live.length === 0) {
+    throw new Error(`No worktrees for ${ticket.trim()} in workspace ${workspace.name}`);
+  }
+
+  // Every PR has to exist before any of them can link to the rest
+  const pullRequests: WorkspacePR[] = [];
+  for (const member of live) {
+    try {
+      pullRequests.push({ ...member, pr: await createPRTool({ worktreePath: member.worktreePath, draft }), linked: false });
+    } catch (error) {
+      pullRequests.push({ ...member, linked: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const opened = pullRequests.filter(entry => entry.pr);
+  if (opened.length > 1) {
+    for (const entry of opened) {
+      const links = [
+        `**Related pull requests** (${ticket.trim()}, workspace \`${workspace.name}\`):`,
+        ...opened.filter(other => other !== entry).map(other => `- ${other.repoName}: ${other.pr!.url}`)
+      ].join('\n');
+      try {
+        const forge = await getForge(entry.worktreePath);
+        const current = await forge.getPullRequest(entry.pr!.number);
+        const body = withWorkspaceLinks(current.body, links);
+        if (body !== current.body) {
+          await forge.updatePullRequest(entry.pr!.number, { body });
+        }
+        entry.linked = true;
+      } catch (error) {
+        entry.error = `Could not link the other PRs: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  }
+
+  const failed = pullRequests.filter(entry => entry.error);
+  const lines = pullRequests.map(entry =>
+    `  ${entry.repoName}: ${entry.pr ? `${entry.pr.url} (${entry.pr.action})` : '❌ no PR'}${entry.error ? ` - ${entry.error}` : ''}`
+  );
+  if (missing.length > 0) {
+    lines.push(`  ⚠️  No worktree in ${missing.map(repo => repo.repoName).join(', ')}`);
+  }
+  const message = `${failed.length === 0 ? '✅' : '⚠️ '} ${opened.length} linked PR(s) for ${ticket.trim()}:\n${lines.join('\n')}`;
+
+  return { workspace: workspace.name, ticket: ticket.trim(), pullRequests, missing, message };
+}
+
+export const createWorkspacePRsDefinition = defineTool<CreateWorkspacePRsArgs, CreateWorkspacePRsResult>({
+  name: 'create_workspace_prs',
+  description:
+    'Push and open a pull request for each of a ticket\'s worktrees in a workspace, as create_pr does (existing open PRs are reused), ' +
+    'then add a "Related pull requests" section to every PR body linking the others. ' +
+    'Running it again refreshes that section instead of adding another.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ticket: {
+        type: 'string',
+        minLength: 1,
+        description: 'Ticket the workspace worktrees were created for (e.g., CO-4493)'
+      },
+      draft: {
+        type: 'boolean',
+        description: 'Optional: Create the PRs as drafts (default: false). Existing PRs are converted to or from drafts'
+      },
+      workspace: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Workspace name from .worktree-config (defaults to the only configured one)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory inside the repo the workspace is configured in (defaults to current directory)'
+      }
+    },
+    required: ['ticket']
+  },
+  handler: createWorkspacePRsTool
+});
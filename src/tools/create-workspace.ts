@@ -0,0 +1,161 @@
+import { resolveWorkspace, findWorkspaceMembers, setWorkspaceTicket } from '../utils/workspace.js';
+import { getTracker } from '../trackers/provider.js';
+import { defineTool, ToolContext } from './tool.js';
+import { createWorktreeTool, branchSlugFromTitle, CreateWorktreeResult, SETUP_PHASES } from './create-worktree.js';
+
+export interface CreateWorkspaceArgs {
+  ticket: string;
+  branchName?: string;
+  baseBranch?: string;
+  workspace?: string;
+  cwd?: string;
+}
+
+export interface WorkspaceWorktree {
+  repoName: string;
+  mainRepoPath: string;
+  /** 'existing' when the repo already had a worktree for the ticket, e.g. when retrying after a failure */
+  status: 'created' | 'existing' | 'failed';
+  worktreePath?: string;
+  result?: CreateWorktreeResult;
+  /** The repo's tracker lookup failed; the worktree was created without ticket details */
+  ticketWarning?: string;
+  error?: string;
+}
+
+// Phases of create_worktree, reported for each repo in turn after the branch name is settled
+const REPO_PHASES = ['lookup', 'create', ...SETUP_PHASES];
+
+export interface CreateWorkspaceResult {
+  workspace: string;
+  ticket: string;
+  branchName: string;
+  worktrees: WorkspaceWorktree[];
+  message: string;
+}
+
+/**
+ * Create matching worktrees for a ticket in every repository of a workspace. Repositories that fail
+ * don't stop the rest; calling it again fills in the missing worktrees
+ */
+export async function createWorkspaceTool(args: CreateWorkspaceArgs, context?: ToolContext): Promise<CreateWorkspaceResult> {
+  const { ticket, branchName, baseBranch, workspace: workspaceName, cwd } = args;
+
+  if (!ticket || !ticket.trim()) {
+    throw new Error('Ticket number is required');
+  }
+
+  const workspace = await resolveWorkspace(cwd, workspaceName);
+  const primary = workspace.repos[0];
+
+  // Progress covers the branch name and every repo's phases, so it is reported with this call's own numbering
+  const total = 1 + workspace.repos.length * REPO_PHASES.length;
+  const report = (phase: string, message: string, progress: number) => {
+    context?.signal.throwIfAborted();
+    context?.report({ phase, message, progress, total });
+  };
+
+  // Every repo gets the same branch name, so derive it once from the primary repo's tracker
+  report('branch_name', branchName ? 'Using the given branch name' : 'Looking up the ticket for a branch name', 1);
+  let branch = branchName?.trim();
+  if (!branch) {
+    const tracker = await getTracker(primary.mainRepoPath);
+    if (!tracker) {
+      throw new Error('Branch name is required when no issue tracker is configured (set tracker in .worktree-config)');
+    }
+    const ticketInfo = await tracker.getTicket(ticket.trim());
+    branch = branchSlugFromTitle(ticketInfo.title);
+    if (!branch) {
+      throw new Error(`Could not derive a branch name from the title of ${ticketInfo.id}; pass branchName`);
+    }
+  }
+
+  const { members } = await findWorkspaceMembers(workspace, ticket.trim());
+
+  const worktrees: WorkspaceWorktree[] = [];
+  for (const [index, repo] of workspace.repos.entries()) {
+    const existing = members.find(member => member.mainRepoPath === repo.mainRepoPath && !member.prunable);
+    if (existing) {
+      worktrees.push({ ...repo, status: 'existing', worktreePath: existing.worktreePath });
+      continue;
+    }
+
+    // Each repo's phases keep their names and are numbered on from the repos before it, under the same cancellation
+    const prefix = `${repo.repoName} (${index + 1}/${workspace.repos.length})`;
+    const repoContext: ToolContext | undefined = context && {
+      signal: context.signal,
+      phase: (name, message) => report(name, `${prefix}: ${message}`, 2 + index * REPO_PHASES.length + REPO_PHASES.indexOf(name)),
+      report: context.report
+    };
+
+    try {
+      const result = await createWorktreeTool({ ticket, branchName: branch, baseBranch, cwd: repo.mainRepoPath }, repoContext);
+      await setWorkspaceTicket(repo.mainRepoPath, result.branchFullName, workspace.name, ticket);
+      worktrees.push({
+        ...repo,
+        status: 'created',
+        worktreePath: result.worktreePath,
+        result,
+        ...(result.ticketWarning ? { ticketWarning: result.ticketWarning } : {})
+      });
+    } catch (error) {
+      context?.signal.throwIfAborted();
+      worktrees.push({ ...repo, status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const failed = worktrees.filter(worktree => worktree.status === 'failed');
+  const summary = `Workspace ${workspace.name} for ${ticket.trim()}: ` +
+    worktrees.map(worktree => `${worktree.repoName} ${worktree.status}`).join(', ');
+  let message = failed.length === 0
+    ? `✅ ${summary}`
+    : `⚠️  ${summary}\n` +
+      failed.map(worktree => `  ${worktree.repoName}: ${worktree.error}`).join('\n') +
+      '\nCall create_workspace again to retry the failed repos';
+  for (const worktree of worktrees.filter(entry => entry.ticketWarning)) {
+    message += `\n⚠️  ${worktree.repoName}: ticket lookup failed, created without ticket details: ${worktree.ticketWarning}`;
+  }
+
+  return { workspace: workspace.name, ticket: ticket.trim(), branchName: branch, worktrees, message };
+}
+
+export const createWorkspaceDefinition = defineTool<CreateWorkspaceArgs, CreateWorkspaceResult>({
+  name: 'create_workspace',
+  description:
+    'Create matching username/TICKET/branch worktrees for a ticket across the repositories of a workspace ' +
+    '(workspaces in .worktree-config, e.g. frontend, API and a shared library), each set up as create_worktree does. ' +
+    'The branch name is derived once from the ticket title when omitted, so it matches in every repo. ' +
+    'A repo that fails doesn\'t stop the others, and repos that already have a worktree for the ticket are kept, ' +
+    'so calling it again completes a partial workspace.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ticket: {
+        type: 'string',
+        minLength: 1,
+        description: 'Ticket number (e.g., CO-4493, PROJ-123)'
+      },
+      branchName: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional when an issue tracker is configured: Branch name used in every repo. Defaults to a slug of the ticket title'
+      },
+      baseBranch: {
+        type: 'string',
+        description: 'Optional: Base branch to create from in every repo. Defaults to each repo\'s configured base or origin/HEAD'
+      },
+      workspace: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Workspace name from .worktree-config (defaults to the only configured one)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory inside the repo the workspace is configured in (defaults to current directory)'
+      }
+    },
+    required: ['ticket']
+  },
+  handler: createWorkspaceTool,
+  phases: ['branch_name', ...REPO_PHASES]
+});
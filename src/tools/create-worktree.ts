@@ -1,97 +1,287 @@
-import path from 'path';
 import { detectUsername } from '../utils/username.js';
-import { getMainRepoRoot, getRepoName, createWorktree, installDependencies, copyEnvFiles } from '../utils/git.js';
+import { loadConfig, renderTemplate, resolveWorktreePath, resolveWorktreeRoot, WorktreeConfig } from '../utils/config.js';
+import { runHooks, HookResult } from '../utils/hooks.js';
+import { openInEditor, EDITOR_CHOICES, EditorChoice, IdeLaunchResult } from '../utils/ide.js';
+import { setBranchTicket } from '../utils/ticket.js';
+import { installDependencies, InstallCommand, InstallResult } from '../utils/dependencies.js';
+import { propagateLocalFiles, LocalFilesReport } from '../utils/local-files.js';
+import { allocateResources, Allocation } from '../utils/allocation.js';
+import { getTracker } from '../trackers/provider.js';
+import { TicketInfo } from '../trackers/types.js';
+import {
+  getMainRepoRoot,
+  getRepoName,
+  createWorktree,
+  getSparsePaths,
+  normalizeSparsePath,
+  BaseBranch
+} from '../utils/git.js';
+import { defineTool, ToolContext } from './tool.js';
 
 export interface CreateWorktreeArgs {
   ticket: string;
-  branchName: string;
+  branchName?: string;
+  baseBranch?: string;
   cwd?: string;
-  openIde?: 'cursor' | 'vscode' | 'auto';
+  openIde?: EditorChoice;
+  sparsePaths?: string[];
+  sparseProfile?: string;
 }
 
-export interface CreateWorktreeResult {
+export interface WorktreeSetupResult {
+  dependenciesInstalled: boolean;
+  /** Tool of the first detected install step (e.g. "pnpm"), null for configured commands */
+  packageManager: string | null;
+  /** Each install step with its exit code and output tail */
+  install: InstallResult;
+  /** Local files copied or linked from the main checkout */
+  envFilesCopied: number;
+  /** What happened to each matched local file, and why files were skipped */
+  localFiles: LocalFilesReport;
+  /** Port block and resource suffix written into the worktree's env file, null when allocation isn't configured */
+  allocation: Allocation | null;
+  /** Why no ports were allocated although allocation is configured */
+  allocationError?: string;
+  hooks: HookResult[];
+  ide: IdeLaunchResult;
+}
+
+export interface CreateWorktreeResult extends WorktreeSetupResult {
   worktreePath: string;
   branchFullName: string;
   username: string;
   usernameSource: string;
   repoName: string;
-  dependenciesInstalled: boolean;
-  packageManager: string | null;
-  envFilesCopied: number;
+  baseBranch: BaseBranch;
+  configPath: string | null;
+  /** Ticket looked up in the issue tracker, null when no tracker is configured or the lookup failed */
+  ticket: TicketInfo | null;
+  /** Why the tracker lookup failed when branchName was given and creation went ahead without it */
+  ticketWarning?: string;
+  /** Cone paths checked out, null for a full checkout */
+  sparsePaths: string[] | null;
+}
+
+// Progress phases of setupWorktree; phases that don't apply (no allocation, no editor) are skipped
+export const SETUP_PHASES = ['install', 'local_files', 'allocate', 'hooks', 'ide'];
+
+// Longest branch slug derived from a ticket title
+const MAX_SLUG_LENGTH = 50;
+
+/**
+ * Normalize a branch name (lowercase, spaces to hyphens)
+ */
+export function normalizeBranchName(branchName: string): string {
+  return branchName
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '');
+}
+
+/**
+ * Branch slug from a ticket title, cut at a word boundary
+ */
+export function branchSlugFromTitle(title: string): string {
+  const slug = normalizeBranchName(title.replace(/[^A-Za-z0-9]+/g, ' ').trim());
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug;
+  }
+  const cut = slug.substring(0, MAX_SLUG_LENGTH + 1);
+  return cut.substring(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : MAX_SLUG_LENGTH);
+}
+
+/**
+ * Install commands from .worktree-config (install, or the older installCommand); undefined to detect them
+ */
+export function configuredInstall(config: WorktreeConfig): InstallCommand[] | undefined {
+  return config.install ?? (config.installCommand ? [{ command: config.installCommand }] : undefined);
+}
+
+/**
+ * Cone paths from a sparseProfile in .worktree-config plus explicit paths, or undefined for a full checkout
+ */
+export function resolveSparsePaths(config: WorktreeConfig, paths?: string[], profile?: string): string[] | undefined {
+  if (profile !== undefined && !config.sparseProfiles[profile]) {
+    const known = Object.keys(config.sparseProfiles);
+    throw new Error(
+      `Unknown sparse profile "${profile}" ` +
+      (known.length > 0 ? `(configured: ${known.join(', ')})` : '(no sparseProfiles in .worktree-config)')
+    );
+  }
+
+  const requested = [...(profile !== undefined ? config.sparseProfiles[profile] : []), ...(paths ?? [])];
+  if (requested.length === 0) {
+    return undefined;
+  }
+
+  const normalized = requested.map(entry => {
+    const cone = normalizeSparsePath(entry);
+    if (!cone) {
+      throw new Error(`Invalid sparse path "${entry}": must be a directory inside the repo`);
+    }
+    return cone;
+  });
+  return [...new Set(normalized)];
+}
+
+/**
+ * Set up a freshly added worktree: install dependencies, copy local files,
+ * run postCreate hooks and open the editor
+ */
+export async function setupWorktree(
+  mainRepoRoot: string,
+  worktreePath: string,
+  branchName: string,
+  config: WorktreeConfig,
+  openIde?: EditorChoice,
+  context?: ToolContext
+): Promise<WorktreeSetupResult> {
+  // Install dependencies; failed steps are reported in the result, the worktree is usable either way
+  context?.phase('install', 'Installing dependencies');
+  let install: InstallResult = { source: 'none', steps: [], success: false, timeSavedMs: null };
+  try {
+    install = await installDependencies(
+      worktreePath,
+      configuredInstall(config),
+      {
+        mainRepoPath: mainRepoRoot,
+        reuse: config.reuseDependencies,
+        signal: context?.signal,
+        sparsePaths: await getSparsePaths(worktreePath)
+      }
+    );
+  } catch (error) {
+    console.error('Failed to install dependencies:', error);
+  }
+
+  // Copy or link local files (.env and the configured localFiles globs)
+  context?.phase('local_files', 'Copying local files');
+  let localFiles: LocalFilesReport = { files: [], copied: 0, updated: 0, linked: 0, skipped: 0, failed: 0 };
+  try {
+    localFiles = await propagateLocalFiles(mainRepoRoot, worktreePath, config.localFiles);
+  } catch (error) {
+    // Copying failed, but worktree was created
+    console.error('Failed to copy local files:', error);
+  }
+
+  // Give the worktree its own ports and resource names, after local files so its env file exists
+  let allocation: Allocation | null = null;
+  let allocationError: string | undefined;
+  if (config.allocation) {
+    context?.phase('allocate', 'Allocating ports');
+    try {
+      const worktreesRoot = resolveWorktreeRoot(config, mainRepoRoot, await getRepoName(mainRepoRoot));
+      allocation = await allocateResources(worktreesRoot, mainRepoRoot, worktreePath, branchName, config.allocation);
+    } catch (error) {
+      allocationError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // Run postCreate hooks (codegen, migrations, ...) now that the worktree is fully set up
+  context?.phase('hooks', 'Running postCreate hooks');
+  const hooks = await runHooks('postCreate', config.hooks.postCreate, {
+    cwd: worktreePath,
+    worktreePath,
+    mainRepoPath: mainRepoRoot,
+    branchName
+  });
+
+  // Open in IDE if requested (or configured); the editor is started detached so this never blocks
+  const ideChoice = openIde ?? config.ide.default;
+  if (ideChoice) {
+    context?.phase('ide', 'Opening the editor');
+  }
+  const ide: IdeLaunchResult = ideChoice
+    ? await openInEditor(worktreePath, ideChoice, config.ide.command)
+    : { launched: false, reason: 'No editor requested' };
+
+  return {
+    dependenciesInstalled: install.success,
+    packageManager: install.steps[0]?.tool ?? null,
+    install,
+    envFilesCopied: localFiles.copied + localFiles.linked,
+    localFiles,
+    allocation,
+    ...(allocationError ? { allocationError } : {}),
+    hooks,
+    ide
+  };
 }
 
 /**
  * Create a new git worktree with automatic setup
  */
-export async function createWorktreeTool(args: CreateWorktreeArgs): Promise<CreateWorktreeResult> {
-  const { ticket, branchName, cwd, openIde } = args;
+export async function createWorktreeTool(args: CreateWorktreeArgs, context?: ToolContext): Promise<CreateWorktreeResult> {
+  const { ticket, branchName, baseBranch, cwd, openIde, sparsePaths, sparseProfile } = args;
 
   // Validate inputs
   if (!ticket || !ticket.trim()) {
     throw new Error('Ticket number is required');
   }
 
-  if (!branchName || !branchName.trim()) {
-    throw new Error('Branch name is required');
-  }
-
   // Get main repository root
   const mainRepoRoot = await getMainRepoRoot(cwd);
 
+  // Load per-repo config (.worktree-config)
+  const config = await loadConfig(mainRepoRoot);
+
+  // Check the sparse paths before anything is looked up or created
+  const sparse = resolveSparsePaths(config, sparsePaths, sparseProfile);
+
+  // Look the ticket up in the issue tracker; without a branch name its title is the only source for one
+  context?.phase('lookup', 'Looking up the ticket');
+  let ticketInfo: TicketInfo | null = null;
+  let ticketWarning: string | undefined;
+  if (!branchName || !branchName.trim()) {
+    const tracker = await getTracker(mainRepoRoot);
+    if (!tracker) {
+      throw new Error('Branch name is required when no issue tracker is configured (set tracker in .worktree-config)');
+    }
+    ticketInfo = await tracker.getTicket(ticket.trim());
+  } else {
+    try {
+      ticketInfo = await (await getTracker(mainRepoRoot))?.getTicket(ticket.trim()) ?? null;
+    } catch (error) {
+      ticketWarning = error instanceof Error ? error.message : String(error);
+    }
+  }
+
   // Detect username
-  const usernameResult = await detectUsername(path.join(mainRepoRoot, '.worktree-config'));
+  const usernameResult = await detectUsername(config.username);
 
   // Get repository name
   const repoName = await getRepoName(mainRepoRoot);
 
-  // Normalize branch name (lowercase, spaces to hyphens)
-  const normalizedBranchName = branchName
-    .toLowerCase()
-    .replace(/\s+/g, '-')
-    .replace(/[^a-z0-9-]/g, '');
-
-  // Construct full branch name: username/TICKET/branch-name
-  const fullBranchName = `${usernameResult.username}/${ticket}/${normalizedBranchName}`;
-
-  // Construct worktree path
-  const worktreesDir = path.join(mainRepoRoot, '..', `${repoName}-worktrees`);
-  const worktreePath = path.join(
-    worktreesDir,
-    usernameResult.username,
-    ticket,
-    normalizedBranchName
-  );
+  const normalizedBranchName = branchName && branchName.trim()
+    ? normalizeBranchName(branchName)
+    : branchSlugFromTitle(ticketInfo!.title);
+  if (!normalizedBranchName) {
+    throw new Error(`Could not derive a branch name from the title of ${ticketInfo!.id}; pass branchName`);
+  }
 
-  // Create the worktree (auto-detects origin/main or origin/master)
-  await createWorktree(mainRepoRoot, worktreePath, fullBranchName);
+  // Construct full branch name from the configured template (default: username/TICKET/branch-name)
+  const templateVars = {
+    username: usernameResult.username,
+    ticket: ticketInfo?.id ?? ticket.trim(),
+    branch: normalizedBranchName
+  };
+  const fullBranchName = renderTemplate(config.branchTemplate, templateVars);
 
-  // Install dependencies
-  let dependenciesInstalled = false;
-  let packageManager: string | null = null;
+  // Construct worktree path (default: ../<repo>-worktrees/username/TICKET/branch-name)
+  const worktreePath = resolveWorktreePath(config, mainRepoRoot, repoName, templateVars);
 
-  try {
-    const result = await installDependencies(worktreePath);
-    dependenciesInstalled = result.success;
-    packageManager = result.packageManager;
-  } catch (error) {
-    // Dependencies installation failed, but worktree was created
-    console.error('Failed to install dependencies:', error);
-  }
+  // Create the worktree from baseBranch, the configured base, or origin/HEAD (in that order)
+  context?.phase('create', `Fetching origin and creating ${worktreePath}`);
+  const base = await createWorktree(mainRepoRoot, worktreePath, fullBranchName, {
+    explicit: baseBranch,
+    configured: config.baseBranch
+  }, sparse);
 
-  // Copy .env files
-  let envFilesCopied = 0;
-  try {
-    envFilesCopied = await copyEnvFiles(mainRepoRoot, worktreePath);
-  } catch (error) {
-    // .env copy failed, but worktree was created
-    console.error('Failed to copy .env files:', error);
+  if (ticketInfo) {
+    await setBranchTicket(mainRepoRoot, fullBranchName, ticketInfo);
   }
 
-  // TODO: Open in IDE if requested
-  if (openIde) {
-    // This would need to execute commands to open IDE
-    // For now, we'll return the path and let Claude handle it
-  }
+  const setup = await setupWorktree(mainRepoRoot, worktreePath, fullBranchName, config, openIde, context);
 
   return {
     worktreePath,
@@ -99,8 +289,73 @@ export async function createWorktreeTool(args: CreateWorktreeArgs): Promise<Crea
     username: usernameResult.username,
     usernameSource: usernameResult.source,
     repoName,
-    dependenciesInstalled,
-    packageManager,
-    envFilesCopied
+    baseBranch: base,
+    configPath: config.configPath,
+    ticket: ticketInfo,
+    ...(ticketWarning ? { ticketWarning } : {}),
+    sparsePaths: sparse ?? null,
+    ...setup
   };
 }
+
+export const createWorktreeDefinition = defineTool<CreateWorktreeArgs, CreateWorktreeResult>({
+  name: 'create_worktree',
+  description:
+    'Create a new git worktree with automatic setup. ' +
+    'Auto-detects username from GitHub/git, installs dependencies (Node, Python, Go, Rust and Ruby projects detected from lockfiles, or configured commands), and copies or symlinks .env and other configured local files (existing files are never overwritten). ' +
+    'With allocation configured, each worktree gets its own port block and resource suffix in its env file. ' +
+    'With an issue tracker configured (Jira, Linear, GitHub issues), the ticket\'s title, type and URL are looked up ' +
+    'and recorded for PRs and listings, and branchName can be omitted to derive it from the ticket title. ' +
+    'Worktrees are created at ../<repo-name>-worktrees/username/TICKET/branch-name ' +
+    '(layout, base branch, copied files and install command are configurable via .worktree-config). ' +
+    'With sparsePaths or sparseProfile, only those directories are checked out, installed and given local files ' +
+    '(widen later with widen_worktree). ' +
+    'Sends a progress notification per phase; with background: true it returns a job ID for job_status instead of waiting.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ticket: {
+        type: 'string',
+        minLength: 1,
+        description: 'Ticket number (e.g., CO-4493, PROJ-123, or #57 for a GitHub issue)'
+      },
+      branchName: {
+        type: 'string',
+        minLength: 1,
+        description:
+          'Optional when an issue tracker is configured: Branch name (spaces will be converted to hyphens, ' +
+          'e.g., "billing feature" -> "billing-feature"). Defaults to a slug of the ticket title'
+      },
+      baseBranch: {
+        type: 'string',
+        description: 'Optional: Base branch to create from (e.g., "develop", "release/2.3"). Defaults to the configured base or origin/HEAD'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory (defaults to current directory)'
+      },
+      openIde: {
+        type: 'string',
+        enum: EDITOR_CHOICES,
+        description:
+          'Optional: Open worktree in IDE after creation. ' +
+          '"auto" uses the configured custom command or the first editor found on PATH'
+      },
+      sparsePaths: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        description:
+          'Optional: Check out only these directories (sparse-checkout cone paths, e.g. ["packages/billing", "apps/web"]); ' +
+          'files at the repo root are always included'
+      },
+      sparseProfile: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Named set of sparse paths from sparseProfiles in .worktree-config (combined with sparsePaths)'
+      }
+    },
+    required: ['ticket']
+  },
+  handler: createWorktreeTool,
+  phases: ['lookup', 'create', ...SETUP_PHASES]
+});
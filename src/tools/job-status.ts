@@ -0,0 +1,74 @@
+import { getJob, listJobs, waitForJob, JobInfo } from './jobs.js';
+import { defineTool, ToolContext } from './tool.js';
+
+export interface JobStatusArgs {
+  jobId?: string;
+  waitSeconds?: number;
+}
+
+export interface JobStatusResult {
+  jobs: JobInfo[];
+  message: string;
+}
+
+// Keep waits well under common client request timeouts
+const MAX_WAIT_SECONDS = 50;
+
+function describeJob(job: JobInfo): string {
+  const phase = job.phases[job.phases.length - 1];
+  switch (job.state) {
+    case 'running':
+      return `⏳ ${job.jobId} (${job.tool}): ${phase ? `${phase.message} (${job.progress}/${job.total})` : 'starting'}`;
+    case 'succeeded':
+      return `✅ ${job.jobId} (${job.tool}): done`;
+    case 'cancelled':
+      return `⚠️  ${job.jobId} (${job.tool}): cancelled${phase ? ` during ${phase.name}` : ''}`;
+    case 'failed':
+      return `❌ ${job.jobId} (${job.tool}): ${job.error}`;
+  }
+}
+
+/**
+ * Report background jobs, optionally waiting for one to finish while relaying its progress
+ */
+export async function jobStatusTool(args: JobStatusArgs, context?: ToolContext): Promise<JobStatusResult> {
+  const { jobId, waitSeconds = 0 } = args;
+
+  if (!jobId) {
+    const jobs = listJobs();
+    return {
+      jobs,
+      message: jobs.length > 0 ? jobs.map(describeJob).join('\n') : 'ℹ️  No background jobs'
+    };
+  }
+
+  const job = waitSeconds > 0
+    ? await waitForJob(jobId, Math.min(waitSeconds, MAX_WAIT_SECONDS) * 1000, progress => context?.report(progress))
+    : getJob(jobId);
+
+  return { jobs: [job], message: describeJob(job) };
+}
+
+export const jobStatusDefinition = defineTool<JobStatusArgs, JobStatusResult>({
+  name: 'job_status',
+  description:
+    'Report background jobs started with background: true (e.g. create_worktree): state, phases reached, ' +
+    'and the tool\'s usual result once finished. With waitSeconds, waits for the job to finish and ' +
+    'sends a progress notification for each phase meanwhile.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      jobId: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Job to report (defaults to all jobs)'
+      },
+      waitSeconds: {
+        type: 'integer',
+        minimum: 0,
+        description: `Optional: Wait up to this many seconds (max ${MAX_WAIT_SECONDS}) for the job to finish (default: 0)`
+      }
+    }
+  },
+  handler: jobStatusTool
+});
@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import { AnyToolDefinition, createToolContext, runHandler, PhaseProgress } from './tool.js';
+
+export type JobState = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobPhase {
+  name: string;
+  message: string;
+  startedAt: string;
+}
+
+/**
+ * A tool call running in the background, as returned by job_status
+ */
+export interface JobInfo {
+  jobId: string;
+  tool: string;
+  state: JobState;
+  /** Phases reached so far, the last one being the current (or final) phase */
+  phases: JobPhase[];
+  progress: number;
+  total: number;
+  startedAt: string;
+  finishedAt: string | null;
+  /** The tool's usual result, once the job succeeded */
+  result?: unknown;
+  error?: string;
+}
+
+interface Job {
+  info: JobInfo;
+  controller: AbortController;
+  /** Called on every phase change and when the job settles */
+  listeners: Set<(progress: PhaseProgress | null) => void>;
+}
+
+// Finished jobs stay queryable for this long
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+const jobs = new Map<string, Job>();
+const settledListeners: ((job: JobInfo) => void)[] = [];
+
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, job] of jobs) {
+    if (job.info.finishedAt && Date.parse(job.info.finishedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+function findJob(jobId: string): Job {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Unknown job: ${jobId} (finished jobs are kept for an hour)`);
+  }
+  return job;
+}
+
+/**
+ * Run a tool's handler as a background job and return right away
+ */
+export function startJob(tool: AnyToolDefinition, args: Record<string, unknown>): JobInfo {
+  pruneFinishedJobs();
+
+  const phases = tool.phases ?? [];
+  const job: Job = {
+    info: {
+      jobId: randomUUID().slice(0, 8),
+      tool: tool.name,
+      state: 'running',
+      phases: [],
+      progress: 0,
+      total: phases.length,
+      startedAt: new Date().toISOString(),
+      finishedAt: null
+    },
+    controller: new AbortController(),
+    listeners: new Set()
+  };
+  jobs.set(job.info.jobId, job);
+
+  const context = createToolContext(phases, job.controller.signal, progress => {
+    job.info.phases.push({ name: progress.phase, message: progress.message, startedAt: new Date().toISOString() });
+    job.info.progress = progress.progress;
+    // Tools that run other tools' phases (create_workspace) report a total of their own
+    job.info.total = progress.total;
+    job.listeners.forEach(listener => listener(progress));
+  });
+
+  runHandler(tool, args, context)
+    .then(result => {
+      job.info.state = 'succeeded';
+      job.info.progress = job.info.total;
+      job.info.result = result;
+    })
+    .catch(error => {
+      job.info.state = job.controller.signal.aborted ? 'cancelled' : 'failed';
+      job.info.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      job.info.finishedAt = new Date().toISOString();
+      job.listeners.forEach(listener => listener(null));
+      settledListeners.forEach(listener => listener(job.info));
+    });
+
+  return job.info;
+}
+
+export function getJob(jobId: string): JobInfo {
+  return findJob(jobId).info;
+}
+
+export function listJobs(): JobInfo[] {
+  pruneFinishedJobs();
+  return [...jobs.values()].map(job => job.info);
+}
+
+/**
+ * Wait until a job settles or the timeout passes, passing each phase change to onPhase
+ */
+export async function waitForJob(
+  jobId: string,
+  timeoutMs: number,
+  onPhase: (progress: PhaseProgress) => void
+): Promise<JobInfo> {
+  const job = findJob(jobId);
+  if (job.info.state !== 'running') {
+    return job.info;
+  }
+
+  await new Promise<void>(resolve => {
+    const timer = setTimeout(done, timeoutMs);
+    function listener(progress: PhaseProgress | null): void {
+      if (progress) {
+        onPhase(progress);
+      } else {
+        done();
+      }
+    }
+    function done(): void {
+      clearTimeout(timer);
+      job.listeners.delete(listener);
+      resolve();
+    }
+    job.listeners.add(listener);
+  });
+
+  return job.info;
+}
+
+/**
+ * Ask a running job to stop. It stops at the next phase boundary, or right away while installing dependencies
+ */
+export function cancelJob(jobId: string): JobInfo {
+  const job = findJob(jobId);
+  if (job.info.state === 'running') {
+    job.controller.abort(new Error('Cancelled with cancel_job'));
+  }
+  return job.info;
+}
+
+/**
+ * Be told when any job finishes, e.g. to refresh resources once a background create_worktree is done
+ */
+export function onJobSettled(listener: (job: JobInfo) => void): void {
+  settledListeners.push(listener);
+}
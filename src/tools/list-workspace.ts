@@ -0,0 +1,91 @@
+import { resolveWorkspace, findWorkspaceMembers, WorkspaceMember, WorkspaceRepo } from '../utils/workspace.js';
+import { defineTool } from './tool.js';
+import { worktreeStatusTool, WorktreeStatusResult } from './worktree-status.js';
+
+export interface ListWorkspaceArgs {
+  ticket: string;
+  workspace?: string;
+  cwd?: string;
+}
+
+export interface WorkspaceMemberStatus extends WorkspaceMember {
+  /** Null when the worktree's directory is gone or its status couldn't be read */
+  status: WorktreeStatusResult | null;
+  error?: string;
+}
+
+export interface ListWorkspaceResult {
+  workspace: string;
+  ticket: string;
+  worktrees: WorkspaceMemberStatus[];
+  /** Repositories of the workspace without a worktree for the ticket */
+  missing: WorkspaceRepo[];
+  /** Every repo has a worktree and each one is ready for a PR */
+  readyForPR: boolean;
+  message: string;
+}
+
+/**
+ * List a ticket's worktrees across the repositories of a workspace, with the status of each
+ */
+export async function listWorkspaceTool(args: ListWorkspaceArgs): Promise<ListWorkspaceResult> {
+  const { ticket, workspace: workspaceName, cwd } = args;
+
+  const workspace = await resolveWorkspace(cwd, workspaceName);
+  const { members, missing } = await findWorkspaceMembers(workspace, ticket.trim());
+
+  const worktrees: WorkspaceMemberStatus[] = [];
+  for (const member of members) {
+    if (member.prunable) {
+      worktrees.push({ ...member, status: null, error: 'Worktree directory is missing (run cleanup_workspace or prune_worktrees)' });
+      continue;
+    }
+    try {
+      worktrees.push({ ...member, status: await worktreeStatusTool({ worktreePath: member.worktreePath }) });
+    } catch (error) {
+      worktrees.push({ ...member, status: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const readyForPR = missing.length === 0 && worktrees.length > 0 && worktrees.every(worktree => worktree.status?.readyForPR);
+
+  const lines = worktrees.map(worktree =>
+    `  ${worktree.repoName}: ${worktree.status ? worktree.status.message : `❌ ${worktree.error}`}`
+  );
+  if (missing.length > 0) {
+    lines.push(`  ⚠️  No worktree in ${missing.map(repo => repo.repoName).join(', ')} (create_workspace adds it)`);
+  }
+  const message = worktrees.length === 0
+    ? `ℹ️  No worktrees for ${ticket.trim()} in workspace ${workspace.name}`
+    : `${readyForPR ? '✅' : 'ℹ️ '} Workspace ${workspace.name} for ${ticket.trim()}:\n${lines.join('\n')}`;
+
+  return { workspace: workspace.name, ticket: ticket.trim(), worktrees, missing, readyForPR, message };
+}
+
+export const listWorkspaceDefinition = defineTool<ListWorkspaceArgs, ListWorkspaceResult>({
+  name: 'list_workspace',
+  description:
+    'List a ticket\'s worktrees across the repositories of a workspace (workspaces in .worktree-config) ' +
+    'with the worktree_status of each, the repos that have no worktree for it, and whether all are ready for PRs.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ticket: {
+        type: 'string',
+        minLength: 1,
+        description: 'Ticket the workspace worktrees were created for (e.g., CO-4493)'
+      },
+      workspace: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Workspace name from .worktree-config (defaults to the only configured one)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory inside the repo the workspace is configured in (defaults to current directory)'
+      }
+    },
+    required: ['ticket']
+  },
+  handler: listWorkspaceTool
+});
@@ -1,16 +1,22 @@
-import { getMainRepoRoot, listWorktrees, getWorktreeStatus, WorktreeInfo } from '../utils/git.js';
+import { getMainRepoRoot, getRepoName, listWorktrees, getWorktreeStatus, getSparsePaths, WorktreeInfo, WorktreeStatus } from '../utils/git.js';
+import { loadConfig, resolveWorktreeRoot } from '../utils/config.js';
+import { getAllocation, Allocation } from '../utils/allocation.js';
+import { getBranchTicket } from '../utils/ticket.js';
+import { TicketInfo } from '../trackers/types.js';
+import { defineTool } from './tool.js';
 
 export interface ListWorktreesArgs {
   cwd?: string;
 }
 
 export interface WorktreeListItem extends WorktreeInfo {
-  status?: {
-    clean: boolean;
-    ahead: number;
-    behind: number;
-    uncommitted: boolean;
-  };
+  status?: WorktreeStatus;
+  /** Ticket recorded when the worktree was created with an issue tracker lookup */
+  ticket?: TicketInfo;
+  /** Ports and resource suffix allocated to the worktree */
+  allocation?: Allocation;
+  /** Checked-out directories of a sparse worktree */
+  sparsePaths?: string[];
 }
 
 export interface ListWorktreesResult {
@@ -26,6 +32,8 @@ export async function listWorktreesTool(args: ListWorktreesArgs): Promise<ListWo
 
   // Get main repository root
   const mainRepoPath = await getMainRepoRoot(cwd);
+  const config = await loadConfig(mainRepoPath);
+  const worktreesRoot = resolveWorktreeRoot(config, mainRepoPath, await getRepoName(mainRepoPath));
 
   // List all worktrees
   const worktrees = await listWorktrees(mainRepoPath);
@@ -37,15 +45,25 @@ export async function listWorktreesTool(args: ListWorktreesArgs): Promise<ListWo
         return worktree;
       }
 
+      const ticket = worktree.branch ? await getBranchTicket(mainRepoPath, worktree.branch) : null;
+      const allocation = await getAllocation(worktreesRoot, worktree.path);
+      const sparsePaths = worktree.prunable === undefined ? await getSparsePaths(worktree.path).catch(() => null) : null;
+      const item: WorktreeListItem = {
+        ...worktree,
+        ...(ticket ? { ticket } : {}),
+        ...(allocation ? { allocation } : {}),
+        ...(sparsePaths ? { sparsePaths } : {})
+      };
+
       try {
-        const status = await getWorktreeStatus(worktree.path);
+        const status = await getWorktreeStatus(worktree.path, config.baseBranch);
         return {
-          ...worktree,
+          ...item,
           status
         };
       } catch (error) {
         // If we can't get status, return without it
-        return worktree;
+        return item;
       }
     })
   );
@@ -58,3 +76,21 @@ export async function listWorktreesTool(args: ListWorktreesArgs): Promise<ListWo
     mainRepoPath
   };
 }
+
+export const listWorktreesDefinition = defineTool<ListWorktreesArgs, ListWorktreesResult>({
+  name: 'list_worktrees',
+  description:
+    'List all git worktrees with their status information. ' +
+    'Shows branch name, path, ticket (title, type and URL when looked up in the issue tracker), allocated ports, ' +
+    'uncommitted changes, and commits ahead/behind the upstream and base branch.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory (defaults to current directory)'
+      }
+    }
+  },
+  handler: listWorktreesTool
+});
@@ -0,0 +1,138 @@
+import { getCurrentBranch } from '../utils/git.js';
+import { getForge } from '../forges/provider.js';
+import { PullRequestCheck, PullRequestStatus } from '../forges/types.js';
+import { defineTool } from './tool.js';
+
+export interface PRStatusArgs {
+  worktreePath: string;
+  pr?: number;
+}
+
+export interface PRStatusResult extends PullRequestStatus {
+  worktreePath: string;
+  summary: {
+    /** Only successful checks pass; skipped counts skipped and neutral ones, which neither pass nor fail */
+    checks: { total: number; passed: number; failed: number; skipped: number; pending: number };
+    comments: number;
+  };
+  message: string;
+}
+
+/**
+ * Describe the review decision for the message
+ */
+function describeReview(status: PullRequestStatus): string {
+  switch (status.reviewDecision) {
+    case 'approved':
+      return `approved by ${status.reviews.filter(r => r.state === 'approved').map(r => r.author).join(', ') || 'reviewers'}`;
+    case 'changes_requested':
+      return `changes requested by ${status.reviews.filter(r => r.state === 'changes_requested').map(r => r.author).join(', ')}`;
+    case 'review_required':
+      return status.requestedReviewers.length > 0
+        ? `review required from ${status.requestedReviewers.join(', ')}`
+        : 'review required';
+    default:
+      return 'no reviews';
+  }
+}
+
+/**
+ * Get the review, check and merge status of a worktree's pull request
+ */
+export async function prStatusTool(args: PRStatusArgs): Promise<PRStatusResult> {
+  const { worktreePath, pr } = args;
+
+  const forge = await getForge(worktreePath);
+
+  let number = pr;
+  if (number === undefined) {
+    const branchName = await getCurrentBranch(worktreePath);
+    const found = await forge.findPullRequestForBranch(branchName);
+    if (!found) {
+      throw new Error(`No pull request found for branch ${branchName}. Create one with create_pr`);
+    }
+    number = found.number;
+  }
+
+  const status = await forge.getPullRequestStatus(number);
+
+  const completed = status.checks.filter(c => c.status === 'completed');
+  const isSkipped = (c: PullRequestCheck) => c.conclusion === 'skipped' || c.conclusion === 'neutral';
+  // Failed, cancelled, timed out or waiting for action: anything else that finished without succeeding
+  const failing = completed.filter(c => c.conclusion !== 'success' && !isSkipped(c));
+  const checks = {
+    total: status.checks.length,
+    passed: completed.filter(c => c.conclusion === 'success').length,
+    failed: failing.length,
+    skipped: completed.filter(isSkipped).length,
+    pending: status.checks.length - completed.length
+  };
+
+  let message: string;
+  if (status.state !== 'open') {
+    message = `ℹ️  PR #${status.number} is ${status.state}`;
+  } else {
+    const parts = [describeReview(status)];
+
+    if (checks.total === 0) {
+      parts.push('no checks');
+    } else {
+      parts.push(
+        `${checks.passed}/${checks.total} checks passed` +
+        (checks.failed > 0 ? `, failing: ${failing.map(c => c.conclusion === 'cancelled' ? `${c.name} (cancelled)` : c.name).join(', ')}` : '') +
+        (checks.skipped > 0 ? `, ${checks.skipped} skipped` : '') +
+        (checks.pending > 0 ? `, ${checks.pending} pending` : '')
+      );
+    }
+
+    if (status.mergeable === false) {
+      parts.push(status.mergeableState ? `not mergeable (${status.mergeableState})` : 'not mergeable');
+    } else if (status.mergeable === true) {
+      parts.push('mergeable');
+    }
+
+    if (status.comments.length > 0) {
+      parts.push(`${status.comments.length} comment(s)`);
+    }
+
+    const blocked = checks.failed > 0 || status.reviewDecision === 'changes_requested' || status.mergeable === false;
+    const ready = status.reviewDecision === 'approved' && checks.pending === 0 && !blocked && !status.draft;
+    const icon = blocked ? '❌' : ready ? '✅' : '⏳';
+
+    message = `${icon} PR #${status.number}${status.draft ? ' (draft)' : ''}: ${parts.join('; ')}`;
+  }
+
+  return {
+    ...status,
+    worktreePath,
+    summary: {
+      checks,
+      comments: status.comments.length
+    },
+    message
+  };
+}
+
+export const prStatusDefinition = defineTool<PRStatusArgs, PRStatusResult>({
+  name: 'pr_status',
+  description:
+    'Get the status of a worktree\'s pull request (merge request on GitLab): review decision, reviews, ' +
+    'requested reviewers, check runs, mergeability and conversation and inline comments.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the worktree'
+      },
+      pr: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Optional: Pull request number (defaults to the most recent PR for the worktree\'s branch)'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: prStatusTool
+});
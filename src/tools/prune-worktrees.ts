@@ -0,0 +1,286 @@
+import { simpleGit } from 'simple-git';
+import {
+  getMainRepoRoot,
+  listWorktrees,
+  getWorktreeStatus,
+  isUpstreamGone,
+  isBranchMerged,
+  getLastActivity,
+  getUnsavedWork,
+  resolveBaseBranch,
+  WorktreeActivity,
+  WorktreeInfo
+} from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { getForge } from '../forges/provider.js';
+import { ForgeProvider } from '../forges/types.js';
+import { cleanupWorktreeTool } from './cleanup-worktree.js';
+import { defineTool } from './tool.js';
+
+export interface PruneWorktreesArgs {
+  mode?: 'report' | 'cleanup';
+  staleDays?: number;
+  checkPullRequests?: boolean;
+  deleteBranches?: boolean;
+  force?: boolean;
+  cwd?: string;
+}
+
+export type StaleReason =
+  | { kind: 'prunable'; detail: string }
+  | { kind: 'merged'; detail: string }
+  | { kind: 'upstream_gone'; detail: string }
+  | { kind: 'pr_closed'; detail: string; url: string }
+  | { kind: 'pr_merged'; detail: string; url: string }
+  | { kind: 'inactive'; detail: string };
+
+export interface PruneCandidate {
+  path: string;
+  branch?: string;
+  reasons: StaleReason[];
+  /** Last activity: the latest commit on top of the base branch, or when the branch was created if it has none */
+  lastCommitAt: string | null;
+  action: 'reported' | 'removed' | 'skipped' | 'failed';
+  note?: string;
+}
+
+export interface PruneWorktreesResult {
+  mode: 'report' | 'cleanup';
+  mainRepoPath: string;
+  checked: number;
+  stale: PruneCandidate[];
+  warnings: string[];
+}
+
+const DEFAULT_STALE_DAYS = 30;
+
+/**
+ * Collect every reason a worktree looks stale
+ */
+async function findStaleReasons(
+  mainRepoPath: string,
+  worktree: WorktreeInfo,
+  options: { staleDays: number; forge: ForgeProvider | null; configuredBase?: string },
+  warnings: string[]
+): Promise<{ reasons: StaleReason[]; activity: WorktreeActivity | null; dirty: boolean }> {
+  const reasons: StaleReason[] = [];
+
+  // Directory is gone: git flags it as prunable and there's nothing else to inspect
+  if (worktree.prunable !== undefined) {
+    reasons.push({ kind: 'prunable', detail: worktree.prunable || 'worktree directory is missing' });
+    return { reasons, activity: null, dirty: false };
+  }
+
+  if (!worktree.branch) {
+    // Detached HEAD: only inactivity applies
+    let baseRef: string | null = null;
+    try {
+      baseRef = (await resolveBaseBranch(worktree.path, { configured: options.configuredBase })).ref;
+    } catch {
+      // No base on origin; inactivity falls back to when HEAD was detached
+    }
+    const activity = await getLastActivity(worktree.path, undefined, baseRef);
+    pushInactive(reasons, activity, options.staleDays);
+    return { reasons, activity, dirty: false };
+  }
+
+  const status = await getWorktreeStatus(worktree.path, options.configuredBase);
+
+  if (status.base && await isBranchMerged(mainRepoPath, worktree.branch, `origin/${status.base.branch}`)) {
+    reasons.push({ kind: 'merged', detail: `merged into ${status.base.branch}` });
+  }
+
+  if (await isUpstreamGone(mainRepoPath, worktree.branch)) {
+    reasons.push({ kind: 'upstream_gone', detail: 'upstream branch was deleted on the remote' });
+  }
+
+  if (options.forge) {
+    try {
+      const pr = await options.forge.findPullRequestForBranch(worktree.branch);
+      if (pr && pr.state === 'merged') {
+        reasons.push({ kind: 'pr_merged', detail: `PR #${pr.number} was merged`, url: pr.url });
+      } else if (pr && pr.state === 'closed') {
+        reasons.push({ kind: 'pr_closed', detail: `PR #${pr.number} was closed without merging`, url: pr.url });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(`Could not look up PR for ${worktree.branch}: ${message}`);
+    }
+  }
+
+  // Only the branch's own commits count: a new branch off an old base is not inactive
+  const activity = await getLastActivity(worktree.path, worktree.branch, status.base ? `origin/${status.base.branch}` : null);
+  pushInactive(reasons, activity, options.staleDays);
+
+  return { reasons, activity, dirty: !status.clean };
+}
+
+function pushInactive(reasons: StaleReason[], activity: WorktreeActivity | null, staleDays: number): void {
+  if (!activity) {
+    return;
+  }
+
+  const ageDays = Math.floor((Date.now() - activity.at.getTime()) / (24 * 60 * 60 * 1000));
+  if (ageDays < staleDays) {
+    return;
+  }
+  const detail = activity.source === 'commit'
+    ? `no commits in ${ageDays} day(s)`
+    : activity.source === 'created'
+      ? `no commits since it was created ${ageDays} day(s) ago`
+      : `no commits, and untouched for ${ageDays} day(s)`;
+  reasons.push({ kind: 'inactive', detail });
+}
+
+/**
+ * Find stale worktrees and optionally remove them
+ */
+export async function pruneWorktreesTool(args: PruneWorktreesArgs): Promise<PruneWorktreesResult> {
+  const {
+    mode = 'report',
+    staleDays = DEFAULT_STALE_DAYS,
+    checkPullRequests = true,
+    deleteBranches = false,
+    force = false,
+    cwd
+  } = args;
+
+  // Get main repository root
+  const mainRepoPath = await getMainRepoRoot(cwd);
+  const config = await loadConfig(mainRepoPath);
+  const warnings: string[] = [];
+
+  // Refresh remote-tracking refs so merged/gone checks see deleted branches
+  try {
+    await simpleGit(mainRepoPath).fetch(['origin', '--prune']);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    warnings.push(`Could not fetch origin, results may be out of date: ${message}`);
+  }
+
+  // One provider for all PR lookups; without auth the other checks still run
+  let forge: ForgeProvider | null = null;
+  if (checkPullRequests) {
+    try {
+      forge = await getForge(mainRepoPath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(`Could not check pull requests: ${message}`);
+    }
+  }
+
+  const worktrees = (await listWorktrees(mainRepoPath)).filter(w => !w.isMain);
+  const stale: PruneCandidate[] = [];
+
+  for (const worktree of worktrees) {
+    let found;
+    try {
+      found = await findStaleReasons(
+        mainRepoPath,
+        worktree,
+        { staleDays, forge, configuredBase: config.baseBranch },
+        warnings
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(`Could not inspect ${worktree.path}: ${message}`);
+      continue;
+    }
+
+    if (found.reasons.length === 0) {
+      continue;
+    }
+
+    const candidate: PruneCandidate = {
+      path: worktree.path,
+      branch: worktree.branch,
+      reasons: found.reasons,
+      lastCommitAt: found.activity ? found.activity.at.toISOString() : null,
+      action: 'reported'
+    };
+    stale.push(candidate);
+
+    if (mode !== 'cleanup') {
+      continue;
+    }
+
+    if (worktree.locked !== undefined) {
+      candidate.action = 'skipped';
+      candidate.note = `Worktree is locked${worktree.locked ? `: ${worktree.locked}` : ''}`;
+      continue;
+    }
+
+    if (found.dirty && !force) {
+      candidate.action = 'skipped';
+      candidate.note = 'Worktree has uncommitted changes';
+      continue;
+    }
+
+    // cleanup_worktree refuses these too; report them as skipped rather than failed
+    if (worktree.prunable === undefined && !force) {
+      const { unpushed } = await getUnsavedWork(worktree.path);
+      if (unpushed.length > 0) {
+        candidate.action = 'skipped';
+        candidate.note = `Worktree has ${unpushed.length} unpushed commit(s)`;
+        continue;
+      }
+    }
+
+    // Same path as cleanup_worktree: hooks, removal, branch deletion, empty directory removal
+    try {
+      await cleanupWorktreeTool({ worktreePath: worktree.path, deleteBranch: deleteBranches, force, cwd: mainRepoPath });
+      candidate.action = 'removed';
+    } catch (error) {
+      candidate.action = 'failed';
+      candidate.note = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return {
+    mode,
+    mainRepoPath,
+    checked: worktrees.length,
+    stale,
+    warnings
+  };
+}
+
+export const pruneWorktreesDefinition = defineTool<PruneWorktreesArgs, PruneWorktreesResult>({
+  name: 'prune_worktrees',
+  description:
+    'Find stale worktrees: branch merged into its base, upstream deleted, PR closed or merged, ' +
+    'no commits in N days, or directory missing (git "prunable"). ' +
+    'Reports by default; mode "cleanup" removes them the same way as cleanup_worktree.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      mode: {
+        type: 'string',
+        enum: ['report', 'cleanup'],
+        description: 'Optional: "report" only lists stale worktrees, "cleanup" also removes them (default: report)'
+      },
+      staleDays: {
+        type: 'number',
+        minimum: 0,
+        description: 'Optional: Flag worktrees without a commit in this many days (default: 30)'
+      },
+      checkPullRequests: {
+        type: 'boolean',
+        description: 'Optional: Look up each branch\'s pull request on the forge (default: true)'
+      },
+      deleteBranches: {
+        type: 'boolean',
+        description: 'Optional: In cleanup mode, also delete the local branches (default: false)'
+      },
+      force: {
+        type: 'boolean',
+        description: 'Optional: In cleanup mode, also remove worktrees with unsaved work (default: false)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory (defaults to current directory)'
+      }
+    }
+  },
+  handler: pruneWorktreesTool
+});
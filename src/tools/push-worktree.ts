@@ -0,0 +1,205 @@
+import { simpleGit } from 'simple-git';
+import {
+  getCurrentBranch,
+  getInProgressOperation,
+  getMainRepoRoot,
+  pushBranch,
+  refExists,
+  resolveBaseBranch
+} from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { defineTool } from './tool.js';
+
+export interface PushWorktreeArgs {
+  worktreePath: string;
+  remote?: string;
+  forceWithLease?: boolean;
+  setUpstream?: boolean;
+}
+
+export interface PushWorktreeResult {
+  worktreePath: string;
+  branch: string;
+  remote: string;
+  remoteBranch: string;
+  status: 'pushed' | 'up_to_date' | 'rejected';
+  /** Commits the remote branch didn't have before the push */
+  commitsPushed: number;
+  created: boolean;
+  forced: boolean;
+  /** Upstream after the push, e.g. "origin/alice/CO-4493/billing" */
+  upstream: string | null;
+  rejection?: {
+    reason: string;
+    remoteRejected: boolean;
+    hint: string;
+  };
+  message: string;
+}
+
+/**
+ * Explain a rejected push and what to do about it
+ */
+function rejectionHint(reason: string, remoteRejected: boolean, forceWithLease: boolean): string {
+  if (remoteRejected) {
+    return `The remote refused the push (${reason}). This usually means branch protection or a server-side hook`;
+  }
+  if (reason === 'stale info') {
+    return 'The remote branch moved since it was last fetched, so force-with-lease refused to overwrite it. ' +
+      'Fetch and check the new commits before pushing again';
+  }
+  if (reason === 'fetch first' || reason === 'non-fast-forward') {
+    return forceWithLease
+      ? 'The remote branch has commits that are not in this worktree'
+      : 'The remote branch has commits that are not in this worktree. Run sync_worktree or integrate them, ' +
+        'then push again. If this branch was rebased, push with forceWithLease: true';
+  }
+  return `git rejected the push (${reason})`;
+}
+
+/**
+ * Where the branch pushes to: its upstream's branch when it tracks one on the remote, otherwise the same name.
+ * An upstream that is the base branch is ignored, so work is never pushed onto the base
+ */
+async function resolveRemoteBranch(worktreePath: string, branch: string, remote: string): Promise<string> {
+  const git = simpleGit(worktreePath);
+  const tracking = await git.raw([
+    'for-each-ref',
+    '--format=%(upstream:remotename)%00%(upstream:remoteref)',
+    `refs/heads/${branch}`
+  ]);
+  const [upstreamRemote, upstreamRef] = tracking.trim().split('\0');
+
+  if (upstreamRemote !== remote || !upstreamRef?.startsWith('refs/heads/')) {
+    return branch;
+  }
+  const upstreamBranch = upstreamRef.substring('refs/heads/'.length);
+
+  const config = await loadConfig(await getMainRepoRoot(worktreePath));
+  const baseNames = new Set<string>();
+  if (config.baseBranch) {
+    baseNames.add(config.baseBranch.replace(/^origin\//, ''));
+  }
+  try {
+    baseNames.add((await resolveBaseBranch(worktreePath, { branchName: branch, configured: config.baseBranch })).name);
+  } catch {
+    // Base not on origin; the configured name is all there is to compare against
+  }
+
+  return baseNames.has(upstreamBranch) ? branch : upstreamBranch;
+}
+
+/**
+ * Push a worktree's branch to a remote with upstream tracking
+ */
+export async function pushWorktreeTool(args: PushWorktreeArgs): Promise<PushWorktreeResult> {
+  const { worktreePath, remote = 'origin', forceWithLease = false, setUpstream = true } = args;
+
+  const git = simpleGit(worktreePath);
+  const branch = await getCurrentBranch(worktreePath);
+  if (branch === 'HEAD') {
+    throw new Error(`${worktreePath} has a detached HEAD; check out a branch before pushing`);
+  }
+
+  const operation = await getInProgressOperation(worktreePath);
+  if (operation) {
+    throw new Error(`A ${operation.type} is in progress in ${worktreePath}. Finish or abort it before pushing`);
+  }
+
+  const remotes = await git.getRemotes();
+  if (!remotes.some(r => r.name === remote)) {
+    throw new Error(`Remote "${remote}" not found (available: ${remotes.map(r => r.name).join(', ') || 'none'})`);
+  }
+
+  const remoteBranch = await resolveRemoteBranch(worktreePath, branch, remote);
+
+  // Count what the remote is missing before pushing
+  const trackingRef = `refs/remotes/${remote}/${remoteBranch}`;
+  const range = await refExists(worktreePath, trackingRef)
+    ? ['HEAD', '--not', trackingRef]
+    : ['HEAD', '--not', `--remotes=${remote}`];
+  const commitsPushed = Number((await git.raw(['rev-list', '--count', ...range])).trim()) || 0;
+
+  const outcome = await pushBranch(worktreePath, remote, remoteBranch, { forceWithLease, setUpstream });
+
+  let upstream: string | null = null;
+  try {
+    upstream = (await git.revparse(['--abbrev-ref', `${branch}@{upstream}`])).trim();
+  } catch {
+    // No upstream configured
+  }
+
+  const target = `${remote}/${remoteBranch}`;
+  if (outcome.status === 'rejected') {
+    const reason = outcome.reason ?? 'unknown reason';
+    const hint = rejectionHint(reason, outcome.remoteRejected ?? false, forceWithLease);
+    return {
+      worktreePath,
+      branch,
+      remote,
+      remoteBranch,
+      status: 'rejected',
+      commitsPushed: 0,
+      created: false,
+      forced: false,
+      upstream,
+      rejection: { reason, remoteRejected: outcome.remoteRejected ?? false, hint },
+      message: `Push to ${target} was rejected: ${hint}`
+    };
+  }
+
+  let message: string;
+  if (outcome.status === 'up_to_date') {
+    message = `${target} is already up to date`;
+  } else {
+    message = `Pushed ${commitsPushed} commit(s) to ${target}` +
+      (outcome.created ? ' (new branch)' : '') +
+      (outcome.forced ? ' (forced with lease)' : '');
+  }
+
+  return {
+    worktreePath,
+    branch,
+    remote,
+    remoteBranch,
+    status: outcome.status,
+    commitsPushed: outcome.status === 'pushed' ? commitsPushed : 0,
+    created: outcome.created,
+    forced: outcome.forced,
+    upstream,
+    message
+  };
+}
+
+export const pushWorktreeDefinition = defineTool<PushWorktreeArgs, PushWorktreeResult>({
+  name: 'push_worktree',
+  description:
+    'Push a worktree\'s branch to a remote and set upstream tracking. ' +
+    'Supports --force-with-lease after a rebase. Rejected pushes are reported with the reason ' +
+    '(non-fast-forward, stale lease, branch protection or hooks) and what to do next.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the worktree to push'
+      },
+      remote: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Remote to push to (default: origin)'
+      },
+      forceWithLease: {
+        type: 'boolean',
+        description: 'Optional: Overwrite the remote branch if it is still where it was last fetched, e.g. after a rebase (default: false)'
+      },
+      setUpstream: {
+        type: 'boolean',
+        description: 'Optional: Make the pushed branch the upstream (default: true)'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: pushWorktreeTool
+});
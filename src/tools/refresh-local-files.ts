@@ -0,0 +1,113 @@
+import path from 'path';
+import { getMainRepoRoot, listWorktrees } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { propagateLocalFiles, LocalFilesReport } from '../utils/local-files.js';
+import { defineTool } from './tool.js';
+
+export interface RefreshLocalFilesArgs {
+  worktreePath?: string;
+  overwrite?: boolean;
+  cwd?: string;
+}
+
+export interface RefreshedWorktree extends LocalFilesReport {
+  worktreePath: string;
+  branch?: string;
+  /** Set when the worktree couldn't be refreshed at all */
+  error?: string;
+}
+
+export interface RefreshLocalFilesResult {
+  mainRepoPath: string;
+  worktrees: RefreshedWorktree[];
+  message: string;
+}
+
+/**
+ * Re-copy (or re-link) the configured local files from the main checkout into one worktree or all of them,
+ * e.g. after rotating secrets in the main checkout's .env
+ */
+export async function refreshLocalFilesTool(args: RefreshLocalFilesArgs): Promise<RefreshLocalFilesResult> {
+  const { worktreePath, overwrite, cwd } = args;
+
+  const mainRepoPath = await getMainRepoRoot(worktreePath ?? cwd);
+  const config = await loadConfig(mainRepoPath);
+  const settings = { ...config.localFiles, ...(overwrite !== undefined ? { overwrite } : {}) };
+
+  // Worktrees whose directory is gone have nothing to refresh
+  const linked = (await listWorktrees(mainRepoPath)).filter(w => !w.isMain && w.prunable === undefined);
+  const targets = worktreePath
+    ? linked.filter(w => path.resolve(w.path) === path.resolve(worktreePath))
+    : linked;
+  if (worktreePath && targets.length === 0) {
+    throw new Error(`${worktreePath} is not a linked worktree of ${mainRepoPath}`);
+  }
+
+  const worktrees: RefreshedWorktree[] = [];
+  for (const worktree of targets) {
+    try {
+      const report = await propagateLocalFiles(mainRepoPath, worktree.path, settings);
+      worktrees.push({ worktreePath: worktree.path, branch: worktree.branch || undefined, ...report });
+    } catch (error) {
+      worktrees.push({
+        worktreePath: worktree.path,
+        branch: worktree.branch || undefined,
+        files: [],
+        copied: 0,
+        updated: 0,
+        linked: 0,
+        skipped: 0,
+        failed: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const total = (key: 'copied' | 'updated' | 'linked' | 'failed') =>
+    worktrees.reduce((sum, worktree) => sum + worktree[key], 0);
+  const changed = worktrees.flatMap(worktree =>
+    worktree.files.filter(file => file.reason === 'changed in the worktree').map(file => path.join(worktree.worktreePath, file.path))
+  );
+  const errors = worktrees.filter(worktree => worktree.error).length;
+
+  let message = worktrees.length === 0
+    ? 'ℹ️  No worktrees to refresh'
+    : `✅ Refreshed ${worktrees.length} worktree(s): ${total('copied')} copied, ${total('updated')} updated, ` +
+      `${total('linked')} linked`;
+  if (changed.length > 0) {
+    message += `\n⚠️  Kept ${changed.length} file(s) edited in the worktree (pass overwrite: true to replace them): ` +
+      changed.join(', ');
+  }
+  if (total('failed') > 0 || errors > 0) {
+    message += `\n❌ ${total('failed')} file(s) failed, ${errors} worktree(s) could not be refreshed`;
+  }
+
+  return { mainRepoPath, worktrees, message };
+}
+
+export const refreshLocalFilesDefinition = defineTool<RefreshLocalFilesArgs, RefreshLocalFilesResult>({
+  name: 'refresh_local_files',
+  description:
+    'Re-sync local files (.env and the configured localFiles globs) from the main checkout into existing worktrees, ' +
+    'e.g. after secrets change. Copies that were not edited in the worktree are updated; edited or pre-existing files ' +
+    'are kept unless overwrite is set. Reports what happened to each file and why.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Worktree to refresh (defaults to every worktree of the repository)'
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'Optional: Replace files that differ in the worktree, including edited ones (default: localFiles.overwrite)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory (defaults to current directory)'
+      }
+    }
+  },
+  handler: refreshLocalFilesTool
+});
@@ -0,0 +1,118 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { validateSchema } from '../utils/validation.js';
+import { ObjectSchema } from '../utils/validation.js';
+import { AnyToolDefinition, createToolContext, runHandler, PhaseProgress } from './tool.js';
+import { startJob } from './jobs.js';
+import { createWorktreeDefinition } from './create-worktree.js';
+import { checkoutWorktreeDefinition } from './checkout-worktree.js';
+import { listWorktreesDefinition } from './list-worktrees.js';
+import { cleanupWorktreeDefinition } from './cleanup-worktree.js';
+import { pruneWorktreesDefinition } from './prune-worktrees.js';
+import { worktreeStatusDefinition } from './worktree-status.js';
+import { syncWorktreeDefinition } from './sync-worktree.js';
+import { refreshLocalFilesDefinition } from './refresh-local-files.js';
+import { widenWorktreeDefinition } from './widen-worktree.js';
+import { pushWorktreeDefinition } from './push-worktree.js';
+import { createPRDefinition } from './create-pr.js';
+import { prStatusDefinition } from './pr-status.js';
+import { createWorkspaceDefinition } from './create-workspace.js';
+import { listWorkspaceDefinition } from './list-workspace.js';
+import { syncWorkspaceDefinition } from './sync-workspace.js';
+import { cleanupWorkspaceDefinition } from './cleanup-workspace.js';
+import { createWorkspacePRsDefinition } from './create-workspace-prs.js';
+import { jobStatusDefinition } from './job-status.js';
+import { cancelJobDefinition } from './cancel-job.js';
+
+// Listed to clients in this order
+const TOOLS: AnyToolDefinition[] = [
+  createWorktreeDefinition,
+  checkoutWorktreeDefinition,
+  listWorktreesDefinition,
+  cleanupWorktreeDefinition,
+  pruneWorktreesDefinition,
+  worktreeStatusDefinition,
+  syncWorktreeDefinition,
+  refreshLocalFilesDefinition,
+  widenWorktreeDefinition,
+  pushWorktreeDefinition,
+  createPRDefinition,
+  prStatusDefinition,
+  createWorkspaceDefinition,
+  listWorkspaceDefinition,
+  syncWorkspaceDefinition,
+  cleanupWorkspaceDefinition,
+  createWorkspacePRsDefinition,
+  jobStatusDefinition,
+  cancelJobDefinition
+];
+
+export interface CallToolOptions {
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Sends an MCP progress notification; set when the request carried a progress token */
+  onProgress?: (progress: PhaseProgress) => void;
+}
+
+/**
+ * Input schema as advertised and validated: tools with phases also take background
+ */
+function inputSchemaOf(tool: AnyToolDefinition): ObjectSchema {
+  if (!tool.phases) {
+    return tool.inputSchema;
+  }
+  return {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      background: {
+        type: 'boolean',
+        description:
+          'Optional: Return a job ID right away and run in the background; ' +
+          'follow it with job_status and stop it with cancel_job (default: false)'
+      }
+    }
+  };
+}
+
+/**
+ * Tool list for tools/list, generated from the registered definitions
+ */
+export function listTools(): Tool[] {
+  return TOOLS.map(tool => ({ name: tool.name, description: tool.description, inputSchema: inputSchemaOf(tool) }));
+}
+
+/**
+ * Validate arguments against the tool's input schema, then run its handler, or start it as a
+ * background job when background is passed
+ */
+export async function callTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  options: CallToolOptions = {}
+): Promise<unknown> {
+  const tool = TOOLS.find(t => t.name === name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  const input = args ?? {};
+  const problems = validateSchema(inputSchemaOf(tool), input);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid arguments for ${name}:\n` +
+      problems.map(problem => `  - ${problem}`).join('\n')
+    );
+  }
+
+  const { background, ...toolArgs } = input;
+  if (background === true) {
+    return startJob(tool, toolArgs);
+  }
+
+  const context = createToolContext(
+    tool.phases ?? [],
+    options.signal ?? new AbortController().signal,
+    progress => options.onProgress?.(progress)
+  );
+  return runHandler(tool, toolArgs, context);
+}
@@ -0,0 +1,102 @@
+import { SyncStrategy } from '../utils/git.js';
+import { resolveWorkspace, findWorkspaceMembers, WorkspaceMember, WorkspaceRepo } from '../utils/workspace.js';
+import { defineTool } from './tool.js';
+import { syncWorktreeTool, SyncWorktreeResult } from './sync-worktree.js';
+
+export interface SyncWorkspaceArgs {
+  ticket: string;
+  strategy?: SyncStrategy;
+  autostash?: boolean;
+  workspace?: string;
+  cwd?: string;
+}
+
+export interface SyncedWorkspaceMember extends WorkspaceMember {
+  result?: SyncWorktreeResult;
+  /** Set when the worktree couldn't be synced at all, e.g. uncommitted changes without autostash */
+  error?: string;
+}
+
+export interface SyncWorkspaceResult {
+  workspace: string;
+  ticket: string;
+  worktrees: SyncedWorkspaceMember[];
+  missing: WorkspaceRepo[];
+  message: string;
+}
+
+/**
+ * Fetch and rebase/merge each of a ticket's workspace worktrees onto its base. A repo that stops on
+ * conflicts or can't be synced doesn't stop the others
+ */
+export async function syncWorkspaceTool(args: SyncWorkspaceArgs): Promise<SyncWorkspaceResult> {
+  const { ticket, strategy, autostash, workspace: workspaceName, cwd } = args;
+
+  const workspace = await resolveWorkspace(cwd, workspaceName);
+  const { members, missing } = await findWorkspaceMembers(workspace, ticket.trim());
+  const live = members.filter(member => !member.prunable);
+  if (live.length === 0) {
+    throw new Error(`No worktrees for ${ticket.trim()} in workspace ${workspace.name}`);
+  }
+
+  const worktrees: SyncedWorkspaceMember[] = [];
+  for (const member of live) {
+    try {
+      worktrees.push({ ...member, result: await syncWorktreeTool({ worktreePath: member.worktreePath, strategy, autostash }) });
+    } catch (error) {
+      worktrees.push({ ...member, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const conflicts = worktrees.filter(worktree => worktree.result?.status === 'conflicts');
+  const failed = worktrees.filter(worktree => worktree.error);
+  const lines = worktrees.map(worktree =>
+    `  ${worktree.repoName}: ${worktree.result ? worktree.result.message : `❌ ${worktree.error}`}`
+  );
+
+  let message = conflicts.length === 0 && failed.length === 0
+    ? `✅ Synced workspace ${workspace.name} for ${ticket.trim()}:\n${lines.join('\n')}`
+    : `⚠️  ${conflicts.length} worktree(s) stopped on conflicts, ${failed.length} could not be synced:\n${lines.join('\n')}`;
+  if (conflicts.length > 0) {
+    message += '\nResolve the conflicts, then call sync_worktree on those worktrees with action "continue" (or "abort")';
+  }
+
+  return { workspace: workspace.name, ticket: ticket.trim(), worktrees, missing, message };
+}
+
+export const syncWorkspaceDefinition = defineTool<SyncWorkspaceArgs, SyncWorkspaceResult>({
+  name: 'sync_workspace',
+  description:
+    'Fetch and rebase or merge each of a ticket\'s worktrees in a workspace onto its latest base branch, as sync_worktree does. ' +
+    'Repos that stop on conflicts are reported with their conflicted files; finish them with sync_worktree.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ticket: {
+        type: 'string',
+        minLength: 1,
+        description: 'Ticket the workspace worktrees were created for (e.g., CO-4493)'
+      },
+      strategy: {
+        type: 'string',
+        enum: ['rebase', 'merge'],
+        description: 'Optional: How to integrate the base branch (default: rebase)'
+      },
+      autostash: {
+        type: 'boolean',
+        description: 'Optional: Stash uncommitted changes before syncing and restore them after (default: false)'
+      },
+      workspace: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Workspace name from .worktree-config (defaults to the only configured one)'
+      },
+      cwd: {
+        type: 'string',
+        description: 'Optional: Working directory inside the repo the workspace is configured in (defaults to current directory)'
+      }
+    },
+    required: ['ticket']
+  },
+  handler: syncWorkspaceTool
+});
@@ -0,0 +1,186 @@
+import { simpleGit } from 'simple-git';
+import {
+  getMainRepoRoot,
+  getWorktreeStatus,
+  resolveBaseBranch,
+  integrateBase,
+  continueOperation,
+  abortOperation,
+  BaseBranch,
+  InProgressOperation,
+  SyncStrategy
+} from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { defineTool } from './tool.js';
+
+export interface SyncWorktreeArgs {
+  worktreePath: string;
+  action?: 'start' | 'continue' | 'abort';
+  strategy?: SyncStrategy;
+  autostash?: boolean;
+  baseBranch?: string;
+}
+
+export interface SyncWorktreeResult {
+  worktreePath: string;
+  action: 'start' | 'continue' | 'abort';
+  strategy: SyncStrategy;
+  baseBranch?: BaseBranch;
+  status: 'synced' | 'up_to_date' | 'conflicts' | 'aborted';
+  headBefore: string;
+  headAfter: string;
+  conflictedFiles: string[];
+  operation: InProgressOperation | null;
+  message: string;
+}
+
+/**
+ * Map an in-progress operation to the sync strategy that can continue or abort it
+ */
+function strategyFor(operation: InProgressOperation | null): SyncStrategy | null {
+  if (operation?.type === 'rebase') {
+    return 'rebase';
+  }
+  if (operation?.type === 'merge') {
+    return 'merge';
+  }
+  return null;
+}
+
+/**
+ * Fetch and rebase/merge a worktree branch onto its base, or continue/abort a sync stopped on conflicts
+ */
+export async function syncWorktreeTool(args: SyncWorktreeArgs): Promise<SyncWorktreeResult> {
+  const { worktreePath, action = 'start', autostash = false, baseBranch } = args;
+
+  const git = simpleGit(worktreePath);
+  const config = await loadConfig(await getMainRepoRoot(worktreePath));
+  const before = await getWorktreeStatus(worktreePath, config.baseBranch);
+  const headBefore = (await git.revparse(['HEAD'])).trim();
+
+  let strategy: SyncStrategy = args.strategy ?? 'rebase';
+  let base: BaseBranch | undefined;
+  let completed: boolean;
+
+  if (action === 'start') {
+    if (before.operation) {
+      throw new Error(
+        `A ${before.operation.type} is already in progress in ${worktreePath}. ` +
+        'Resolve it with action "continue" or "abort" first'
+      );
+    }
+
+    // Untracked files don't stop a rebase or merge; git reports the ones the base would overwrite
+    const uncommitted = before.files.staged.length + before.files.unstaged.length;
+    if (uncommitted > 0 && !autostash) {
+      throw new Error(
+        `Worktree has uncommitted changes (${before.files.staged.length} staged, ` +
+        `${before.files.unstaged.length} unstaged). Commit them or pass autostash: true`
+      );
+    }
+
+    // Fetch latest changes
+    await git.fetch('origin');
+
+    base = await resolveBaseBranch(worktreePath, {
+      explicit: baseBranch,
+      branchName: before.branch ?? undefined,
+      configured: config.baseBranch
+    });
+
+    completed = await integrateBase(worktreePath, base.ref, strategy, autostash);
+  } else {
+    const operationStrategy = strategyFor(before.operation);
+    if (!operationStrategy) {
+      throw new Error(
+        before.operation
+          ? `A ${before.operation.type} is in progress, which sync_worktree can't ${action}. Use git directly`
+          : `No rebase or merge in progress in ${worktreePath}, nothing to ${action}`
+      );
+    }
+    strategy = operationStrategy;
+
+    if (action === 'abort') {
+      await abortOperation(worktreePath, strategy);
+      completed = true;
+    } else if (before.files.conflicted.length > 0) {
+      // git would refuse anyway; report what still needs resolving
+      completed = false;
+    } else {
+      completed = await continueOperation(worktreePath, strategy);
+    }
+  }
+
+  const after = await getWorktreeStatus(worktreePath, config.baseBranch);
+  const headAfter = (await git.revparse(['HEAD'])).trim();
+
+  let status: SyncWorktreeResult['status'];
+  let message: string;
+  if (action === 'abort') {
+    status = 'aborted';
+    message = `Aborted ${strategy}; branch restored to ${headAfter.substring(0, 7)}`;
+  } else if (!completed) {
+    status = 'conflicts';
+    message = after.files.conflicted.length > 0
+      ? `${strategy} stopped with ${after.files.conflicted.length} conflicted file(s). ` +
+        'Resolve them, stage with git add, then call sync_worktree with action "continue" (or "abort")'
+      : `${strategy} stopped partway. Call sync_worktree with action "continue" or "abort"`;
+  } else if (headAfter === headBefore) {
+    status = 'up_to_date';
+    message = base ? `Already up to date with ${base.name}` : 'Already up to date';
+  } else {
+    status = 'synced';
+    message = base ? `Synced with ${base.name} using ${strategy}` : `Finished ${strategy}`;
+  }
+
+  return {
+    worktreePath,
+    action,
+    strategy,
+    baseBranch: base,
+    status,
+    headBefore,
+    headAfter,
+    conflictedFiles: after.files.conflicted,
+    operation: after.operation,
+    message
+  };
+}
+
+export const syncWorktreeDefinition = defineTool<SyncWorktreeArgs, SyncWorktreeResult>({
+  name: 'sync_worktree',
+  description:
+    'Fetch and rebase or merge a worktree branch onto the latest base branch. ' +
+    'If it stops on conflicts, reports the conflicted files; resolve and stage them, ' +
+    'then call again with action "continue", or use "abort" to restore the branch.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the worktree to sync'
+      },
+      action: {
+        type: 'string',
+        enum: ['start', 'continue', 'abort'],
+        description: 'Optional: "start" a sync, or "continue"/"abort" one stopped on conflicts (default: start)'
+      },
+      strategy: {
+        type: 'string',
+        enum: ['rebase', 'merge'],
+        description: 'Optional: How to integrate the base branch (default: rebase)'
+      },
+      autostash: {
+        type: 'boolean',
+        description: 'Optional: Stash uncommitted changes before syncing and restore them after (default: false)'
+      },
+      baseBranch: {
+        type: 'string',
+        description: 'Optional: Base branch to sync with. Defaults to the branch the worktree was created from'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: syncWorktreeTool
+});
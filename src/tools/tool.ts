@@ -0,0 +1,73 @@
+import { ObjectSchema } from '../utils/validation.js';
+
+/**
+ * Passed to handlers by the registry: how a long-running tool reports progress and learns it was cancelled
+ */
+export interface ToolContext {
+  /** Announce the next phase (one of the definition's phases); throws when the call or job was cancelled */
+  phase(name: string, message: string): void;
+  /** Send progress as is, e.g. another job's phases while waiting for it */
+  report(progress: PhaseProgress): void;
+  /** Aborted when the client cancels the call, or cancel_job cancels the job */
+  signal: AbortSignal;
+}
+
+/**
+ * A tool's single source of truth: the schema advertised in tools/list and used to
+ * validate arguments, the handler, and (through the type parameters) its result type
+ */
+export interface ToolDefinition<Args, Result> {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  handler: (args: Args, context?: ToolContext) => Promise<Result>;
+  /**
+   * Phases a long-running tool reports through context.phase, in order. Tools with phases
+   * also accept `background: true` to run as a job (see jobs.ts)
+   */
+  phases?: string[];
+}
+
+// Registry entries are heterogeneous: no argument type fits every handler, so none is accepted without runHandler
+export type AnyToolDefinition = ToolDefinition<never, unknown>;
+
+/**
+ * Declare a tool. Identity at runtime; ties the handler's argument and result types to the definition
+ */
+export function defineTool<Args, Result>(definition: ToolDefinition<Args, Result>): ToolDefinition<Args, Result> {
+  return definition;
+}
+
+/**
+ * Run a registry entry's handler with arguments already validated against its inputSchema
+ */
+export function runHandler(tool: AnyToolDefinition, args: Record<string, unknown>, context: ToolContext): Promise<unknown> {
+  // The schema check stands in for the handler's argument type, which the registry doesn't keep
+  return tool.handler(args as never, context);
+}
+
+export interface PhaseProgress {
+  phase: string;
+  message: string;
+  /** 1-based index of the phase, for MCP progress notifications */
+  progress: number;
+  total: number;
+}
+
+/**
+ * Build the context for one tool call: each phase is a cancellation point and is passed on to onPhase
+ */
+export function createToolContext(
+  phases: string[],
+  signal: AbortSignal,
+  onPhase: (progress: PhaseProgress) => void
+): ToolContext {
+  return {
+    signal,
+    phase(name, message) {
+      signal.throwIfAborted();
+      onPhase({ phase: name, message, progress: phases.indexOf(name) + 1, total: phases.length });
+    },
+    report: onPhase
+  };
+}
@@ -0,0 +1,123 @@
+import { getMainRepoRoot, getSparsePaths, widenSparseCheckout } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { installDependencies, InstallResult } from '../utils/dependencies.js';
+import { propagateLocalFiles, LocalFilesReport } from '../utils/local-files.js';
+import { configuredInstall, resolveSparsePaths } from './create-worktree.js';
+import { defineTool } from './tool.js';
+
+export interface WidenWorktreeArgs {
+  worktreePath: string;
+  paths?: string[];
+  profile?: string;
+  all?: boolean;
+  install?: boolean;
+}
+
+export interface WidenWorktreeResult {
+  worktreePath: string;
+  /** Cone paths checked out now, null after switching to a full checkout */
+  sparsePaths: string[] | null;
+  added: string[];
+  localFiles: LocalFilesReport;
+  install?: InstallResult;
+  message: string;
+}
+
+/**
+ * Add directories to a sparse worktree (or check out everything), then copy local files
+ * and install dependencies for what was added
+ */
+export async function widenWorktreeTool(args: WidenWorktreeArgs): Promise<WidenWorktreeResult> {
+  const { worktreePath, paths, profile, all = false, install = true } = args;
+
+  const before = await getSparsePaths(worktreePath);
+  if (!before) {
+    throw new Error(`${worktreePath} is not a sparse worktree; everything is already checked out`);
+  }
+
+  const mainRepoPath = await getMainRepoRoot(worktreePath);
+  const config = await loadConfig(mainRepoPath);
+
+  let added: string[];
+  if (all) {
+    await widenSparseCheckout(worktreePath, null);
+    added = [];
+  } else {
+    const requested = resolveSparsePaths(config, paths, profile);
+    if (!requested) {
+      throw new Error('Pass paths, profile, or all: true');
+    }
+    added = requested.filter(cone => !before.includes(cone));
+    if (added.length > 0) {
+      await widenSparseCheckout(worktreePath, added);
+    }
+  }
+  const after = await getSparsePaths(worktreePath);
+
+  const localFiles = await propagateLocalFiles(mainRepoPath, worktreePath, config.localFiles);
+
+  // Newly checked-out projects (or workspace members) need their dependencies
+  let installResult: InstallResult | undefined;
+  if (install && (all || added.length > 0)) {
+    installResult = await installDependencies(worktreePath, configuredInstall(config), {
+      mainRepoPath,
+      reuse: config.reuseDependencies,
+      sparsePaths: after
+    });
+  }
+
+  let message = all
+    ? '✅ Switched to a full checkout'
+    : added.length > 0
+      ? `✅ Added ${added.join(', ')} to the sparse checkout`
+      : `ℹ️  ${(paths ?? []).concat(profile ? [`profile ${profile}`] : []).join(', ')} already checked out`;
+  if (installResult && !installResult.success && installResult.source !== 'none') {
+    message += `\n⚠️  ${installResult.steps.filter(step => step.exitCode !== 0).length} install step(s) failed`;
+  }
+
+  return {
+    worktreePath,
+    sparsePaths: after,
+    added,
+    localFiles,
+    ...(installResult ? { install: installResult } : {}),
+    message
+  };
+}
+
+export const widenWorktreeDefinition = defineTool<WidenWorktreeArgs, WidenWorktreeResult>({
+  name: 'widen_worktree',
+  description:
+    'Add directories to a sparse worktree created with sparsePaths or sparseProfile, or switch it to a full checkout. ' +
+    'Copies local files into the added directories and re-runs dependency installation.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the sparse worktree'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string', minLength: 1 },
+        description: 'Optional: Directories to add (e.g. ["packages/payments"])'
+      },
+      profile: {
+        type: 'string',
+        minLength: 1,
+        description: 'Optional: Add the directories of a sparseProfiles entry from .worktree-config'
+      },
+      all: {
+        type: 'boolean',
+        description: 'Optional: Disable sparse checkout and check out everything (default: false)'
+      },
+      install: {
+        type: 'boolean',
+        description: 'Optional: Install dependencies after widening (default: true)'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: widenWorktreeTool
+});
@@ -1,4 +1,6 @@
-import { getWorktreeStatus, WorktreeStatus } from '../utils/git.js';
+import { getMainRepoRoot, getWorktreeStatus, WorktreeStatus } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { defineTool } from './tool.js';
 
 export interface WorktreeStatusArgs {
   worktreePath: string;
@@ -16,21 +18,39 @@ export interface WorktreeStatusResult extends WorktreeStatus {
 export async function worktreeStatusTool(args: WorktreeStatusArgs): Promise<WorktreeStatusResult> {
   const { worktreePath } = args;
 
-  const status = await getWorktreeStatus(worktreePath);
+  const config = await loadConfig(await getMainRepoRoot(worktreePath));
+  const status = await getWorktreeStatus(worktreePath, config.baseBranch);
+
+  // Commits the PR would contain: measured against the base when known, otherwise the upstream
+  const commitsAhead = status.base ? status.base.ahead : status.ahead;
 
   // Determine if ready for PR
-  const readyForPR = status.clean && status.ahead > 0;
+  const readyForPR = status.clean && status.operation === null && commitsAhead > 0;
 
   // Generate human-readable message
   let message = '';
-  if (!status.clean) {
+  if (status.operation) {
+    const progress = status.operation.step && status.operation.totalSteps
+      ? ` (step ${status.operation.step}/${status.operation.totalSteps})`
+      : '';
+    const conflicts = status.files.conflicted.length > 0
+      ? `, ${status.files.conflicted.length} conflicted file(s)`
+      : '';
+    message = `⚠️  ${status.operation.type} in progress${progress}${conflicts}`;
+  } else if (status.files.conflicted.length > 0) {
+    message = `⚠️  ${status.files.conflicted.length} conflicted file(s)`;
+  } else if (!status.clean) {
     message = '⚠️  Working directory has uncommitted changes';
-  } else if (status.ahead === 0) {
-    message = 'ℹ️  No commits to push';
-  } else if (status.behind > 0) {
-    message = `⚠️  Branch is ${status.behind} commit(s) behind master`;
+  } else if (commitsAhead === 0) {
+    message = status.base
+      ? `ℹ️  No commits ahead of ${status.base.branch}`
+      : 'ℹ️  No commits to push';
+  } else if (status.base && status.base.behind > 0) {
+    message = `⚠️  Branch is ${status.base.behind} commit(s) behind ${status.base.branch}`;
+  } else if (status.upstream && status.upstream.behind > 0) {
+    message = `⚠️  Branch is ${status.upstream.behind} commit(s) behind ${status.upstream.branch}`;
   } else {
-    message = `✅ Clean and ${status.ahead} commit(s) ahead - ready for PR`;
+    message = `✅ Clean and ${commitsAhead} commit(s) ahead - ready for PR`;
   }
 
   return {
@@ -40,3 +60,23 @@ export async function worktreeStatusTool(args: WorktreeStatusArgs): Promise<Work
     message
   };
 }
+
+export const worktreeStatusDefinition = defineTool<WorktreeStatusArgs, WorktreeStatusResult>({
+  name: 'worktree_status',
+  description:
+    'Get the detailed status of a worktree: staged, unstaged, untracked and conflicted files, ' +
+    'any in-progress rebase/merge/cherry-pick, commits ahead/behind the upstream and the base branch, ' +
+    'and whether it is ready for PR.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      worktreePath: {
+        type: 'string',
+        minLength: 1,
+        description: 'Path to the worktree to check'
+      }
+    },
+    required: ['worktreePath']
+  },
+  handler: worktreeStatusTool
+});
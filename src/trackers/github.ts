@@ -0,0 +1,64 @@
+import { requestJson } from '../forges/http.js';
+import { githubForge } from '../forges/github.js';
+import { TrackerFactory, TrackerProvider, TrackerProviderOptions } from './types.js';
+
+interface IssueData {
+  number: number;
+  title: string;
+  html_url: string;
+  state: string;
+  labels: ({ name: string } | string)[];
+  /** Organization issue types, null when the repository doesn't use them */
+  type?: { name: string } | null;
+  pull_request?: unknown;
+}
+
+// GitHub issues are numbered; branches and PR titles use GH-<number> so they match the usual ticket pattern
+const ISSUE_ID_PATTERN = /^(?:GH-|#)?(\d+)$/i;
+
+function createGitHubTracker({ apiUrl, token, repo }: TrackerProviderOptions): TrackerProvider {
+  const headers = { Authorization: `Bearer ${token}`, Accept: 'application/vnd.github+json' };
+
+  return {
+    kind: 'github',
+    apiUrl,
+
+    async getTicket(id) {
+      const match = id.trim().match(ISSUE_ID_PATTERN);
+      if (!match) {
+        throw new Error(`Invalid GitHub issue: ${id} (expected a number, #123 or GH-123)`);
+      }
+      if (!repo) {
+        throw new Error('GitHub issues need an origin remote on GitHub to know which repository to look in');
+      }
+
+      const issue = await requestJson<IssueData>(
+        `${apiUrl}/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}/issues/${match[1]}`,
+        { headers }
+      );
+      if (issue.pull_request) {
+        throw new Error(`#${issue.number} is a pull request, not an issue`);
+      }
+
+      const firstLabel = issue.labels[0];
+      return {
+        id: `GH-${issue.number}`,
+        title: issue.title,
+        type: issue.type?.name ?? (typeof firstLabel === 'string' ? firstLabel : firstLabel?.name) ?? null,
+        status: issue.state,
+        url: issue.html_url,
+        tracker: 'github'
+      };
+    }
+  };
+}
+
+export const githubTracker: TrackerFactory = {
+  kind: 'github',
+  displayName: 'GitHub Issues',
+  defaultApiUrl: (repo) => repo ? githubForge.defaultApiUrl(repo) : 'https://api.github.com',
+  // Same credentials as the forge for the origin host
+  resolveToken: (repo) => githubForge.resolveToken(repo?.host ?? 'github.com'),
+  authHelp: (repo) => githubForge.authHelp(repo?.host ?? 'github.com'),
+  create: createGitHubTracker
+};
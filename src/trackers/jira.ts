@@ -0,0 +1,57 @@
+import { requestJson, resolveToken } from '../forges/http.js';
+import { TrackerFactory, TrackerProvider, TrackerProviderOptions } from './types.js';
+
+interface IssueData {
+  key: string;
+  fields: {
+    summary: string;
+    issuetype: { name: string } | null;
+    status: { name: string } | null;
+  };
+}
+
+function createJiraProvider({ apiUrl, token }: TrackerProviderOptions): TrackerProvider {
+  // Jira Cloud API tokens come as "email:token" and use basic auth; Server/Data Center personal access tokens use bearer auth
+  const headers = {
+    Authorization: token.includes(':') ? `Basic ${Buffer.from(token).toString('base64')}` : `Bearer ${token}`
+  };
+
+  return {
+    kind: 'jira',
+    apiUrl,
+
+    async getTicket(id) {
+      const issue = await requestJson<IssueData>(
+        `${apiUrl}/rest/api/2/issue/${encodeURIComponent(id.toUpperCase())}?fields=summary,issuetype,status`,
+        { headers }
+      );
+
+      return {
+        id: issue.key,
+        title: issue.fields.summary,
+        type: issue.fields.issuetype?.name ?? null,
+        status: issue.fields.status?.name ?? null,
+        url: `${apiUrl}/browse/${issue.key}`,
+        tracker: 'jira'
+      };
+    }
+  };
+}
+
+export const jiraTracker: TrackerFactory = {
+  kind: 'jira',
+  displayName: 'Jira',
+  // Every Jira site has its own URL (https://acme.atlassian.net)
+  defaultApiUrl: () => null,
+  resolveToken: async () => {
+    const email = process.env.JIRA_EMAIL?.trim();
+    const token = await resolveToken(['JIRA_API_TOKEN', 'JIRA_TOKEN']);
+    if (!token) {
+      return null;
+    }
+    return email ? `${email}:${token}` : token;
+  },
+  authHelp: () =>
+    'Set JIRA_EMAIL and JIRA_API_TOKEN (Jira Cloud), or JIRA_API_TOKEN to a personal access token (Jira Server/Data Center)',
+  create: createJiraProvider
+};
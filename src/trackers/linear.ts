@@ -0,0 +1,61 @@
+import { requestJson, resolveToken } from '../forges/http.js';
+import { TrackerFactory, TrackerProvider, TrackerProviderOptions } from './types.js';
+
+interface IssueResponse {
+  data: {
+    issue: {
+      identifier: string;
+      title: string;
+      url: string;
+      state: { name: string } | null;
+      labels: { nodes: { name: string }[] };
+    } | null;
+  } | null;
+  errors?: { message: string }[];
+}
+
+const ISSUE_QUERY = 'query($id: String!) { issue(id: $id) { identifier title url state { name } labels { nodes { name } } } }';
+
+function createLinearProvider({ apiUrl, token }: TrackerProviderOptions): TrackerProvider {
+  // Personal API keys are sent as is; OAuth access tokens need the Bearer scheme
+  const headers = { Authorization: token.startsWith('lin_oauth_') ? `Bearer ${token}` : token };
+
+  return {
+    kind: 'linear',
+    apiUrl,
+
+    async getTicket(id) {
+      // GraphQL reports errors with a 200 status
+      const response = await requestJson<IssueResponse>(apiUrl, {
+        method: 'POST',
+        headers,
+        body: { query: ISSUE_QUERY, variables: { id: id.toUpperCase() } }
+      });
+
+      const issue = response.data?.issue;
+      if (!issue) {
+        const message = response.errors?.map(error => error.message).join('; ') || 'not found';
+        throw new Error(`Linear issue ${id}: ${message}`);
+      }
+
+      return {
+        id: issue.identifier,
+        title: issue.title,
+        // Linear has no issue types; teams use labels such as "Bug" or "Feature" for that
+        type: issue.labels.nodes[0]?.name ?? null,
+        status: issue.state?.name ?? null,
+        url: issue.url,
+        tracker: 'linear'
+      };
+    }
+  };
+}
+
+export const linearTracker: TrackerFactory = {
+  kind: 'linear',
+  displayName: 'Linear',
+  defaultApiUrl: () => 'https://api.linear.app/graphql',
+  resolveToken: () => resolveToken(['LINEAR_API_KEY']),
+  authHelp: () => 'Set LINEAR_API_KEY to a personal API key (Settings > Security & access)',
+  create: createLinearProvider
+};
@@ -0,0 +1,79 @@
+import { getMainRepoRoot } from '../utils/git.js';
+import { loadConfig } from '../utils/config.js';
+import { getOriginUrl, parseRemoteUrl, RemoteRepo } from '../utils/remote.js';
+import { TrackerFactory, TrackerKind, TrackerProvider } from './types.js';
+import { jiraTracker } from './jira.js';
+import { linearTracker } from './linear.js';
+import { githubTracker } from './github.js';
+
+const TRACKERS: Record<TrackerKind, TrackerFactory> = {
+  jira: jiraTracker,
+  linear: linearTracker,
+  github: githubTracker
+};
+
+/**
+ * Guess the tracker from the ticketUrl link pattern (e.g. https://acme.atlassian.net/browse/{ticket})
+ */
+export function detectTrackerKind(ticketUrl: string): TrackerKind | null {
+  let url: URL;
+  try {
+    url = new URL(ticketUrl.replace('{ticket}', 'TICKET'));
+  } catch {
+    return null;
+  }
+
+  if (url.hostname === 'linear.app') {
+    return 'linear';
+  }
+  if (url.hostname.endsWith('.atlassian.net') || url.pathname.includes('/browse/')) {
+    return 'jira';
+  }
+  if (url.hostname.includes('github') && url.pathname.includes('/issues/')) {
+    return 'github';
+  }
+  return null;
+}
+
+/**
+ * Jira site URL from a /browse/{ticket} link pattern
+ */
+function jiraSiteUrl(ticketUrl: string | undefined): string | null {
+  const match = ticketUrl?.match(/^(https?:\/\/.+?)\/browse\//);
+  return match ? match[1] : null;
+}
+
+/**
+ * Get an authenticated issue tracker for a repository, or null when none is configured or
+ * detectable. The tracker comes from `tracker` in .worktree-config, otherwise from `ticketUrl`
+ */
+export async function getTracker(repoPath: string): Promise<TrackerProvider | null> {
+  const config = await loadConfig(await getMainRepoRoot(repoPath));
+
+  const kind = config.tracker.provider ?? (config.ticketUrl ? detectTrackerKind(config.ticketUrl) : null);
+  if (!kind) {
+    return null;
+  }
+
+  let repo: RemoteRepo | null = null;
+  try {
+    repo = parseRemoteUrl(await getOriginUrl(repoPath));
+  } catch (error) {
+    // No origin; only GitHub issues need it
+  }
+
+  const tracker = TRACKERS[kind];
+  const apiUrl = config.tracker.apiUrl
+    ?? (kind === 'jira' ? jiraSiteUrl(config.ticketUrl) : null)
+    ?? tracker.defaultApiUrl(repo);
+  if (!apiUrl) {
+    throw new Error(`${tracker.displayName} needs tracker.apiUrl in .worktree-config (e.g. https://acme.atlassian.net)`);
+  }
+
+  const token = await tracker.resolveToken(repo);
+  if (!token) {
+    throw new Error(`${tracker.displayName} authentication required. ${tracker.authHelp(repo)}`);
+  }
+
+  return tracker.create({ apiUrl: apiUrl.replace(/\/+$/, ''), token, repo });
+}
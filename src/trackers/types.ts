@@ -0,0 +1,52 @@
+import { RemoteRepo } from '../utils/remote.js';
+
+export type TrackerKind = 'jira' | 'linear' | 'github';
+
+export const TRACKER_KINDS: TrackerKind[] = ['jira', 'linear', 'github'];
+
+export interface TicketInfo {
+  /** Canonical ticket ID, e.g. "CO-4493", "ENG-12" or "GH-57" for a GitHub issue */
+  id: string;
+  title: string;
+  /** Issue type (Jira), issue type or first label (GitHub), first label (Linear) */
+  type: string | null;
+  status: string | null;
+  url: string;
+  tracker: TrackerKind;
+}
+
+/**
+ * Everything a tracker needs to look up tickets. apiUrl is injectable so a
+ * tracker can be pointed at a local HTTP stand-in
+ */
+export interface TrackerProviderOptions {
+  apiUrl: string;
+  token: string;
+  /** origin repository, used by trackers whose issues live next to the code (GitHub) */
+  repo: RemoteRepo | null;
+}
+
+/**
+ * Ticket lookups of an issue tracker
+ */
+export interface TrackerProvider {
+  readonly kind: TrackerKind;
+  /** API base URL requests are sent to */
+  readonly apiUrl: string;
+  getTicket(id: string): Promise<TicketInfo>;
+}
+
+/**
+ * An issue tracker implementation: where its API is, how to authenticate, and how to build a provider
+ */
+export interface TrackerFactory {
+  kind: TrackerKind;
+  displayName: string;
+  /** API base URL used when none is configured, null when the tracker has no fixed one (Jira sites) */
+  defaultApiUrl(repo: RemoteRepo | null): string | null;
+  /** Token from the environment or the tracker's CLI, null when not authenticated */
+  resolveToken(repo: RemoteRepo | null): Promise<string | null>;
+  /** Shown when no token is found */
+  authHelp(repo: RemoteRepo | null): string;
+  create(options: TrackerProviderOptions): TrackerProvider;
+}
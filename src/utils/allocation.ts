@@ -0,0 +1,259 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { listWorktrees } from './git.js';
+
+/**
+ * Port block and resource names handed out to each worktree, so several dev servers can run at once
+ */
+export interface AllocationSettings {
+  /** First port of block 0 */
+  basePort: number;
+  /** Ports per worktree */
+  blockSize: number;
+  /** Worktrees that can hold a block at the same time */
+  maxBlocks: number;
+  /** Env variable -> port offset within the block, e.g. { PORT: 0, API_PORT: 1 } */
+  ports: Record<string, number>;
+  /** Env variable -> value template with {suffix} and {block}, e.g. { DATABASE_NAME: "app_{suffix}" } */
+  variables: Record<string, string>;
+  /** Env file in the worktree the values are written to */
+  envFile: string;
+}
+
+export interface Allocation {
+  worktreePath: string;
+  mainRepoPath: string;
+  branch: string;
+  block: number;
+  /** Env variable -> allocated port */
+  ports: Record<string, number>;
+  /** Unique per live worktree; for database names, container names and the like */
+  suffix: string;
+  /** Rendered resource variables */
+  variables: Record<string, string>;
+  /** Env file (relative to the worktree root) the values were written to */
+  envFile: string;
+  allocatedAt: string;
+}
+
+interface AllocationRegistry {
+  allocations: Allocation[];
+}
+
+// Kept in the worktrees root, next to the worktrees it hands out blocks to
+const REGISTRY_FILE = '.worktree-allocations.json';
+
+// Registry updates wait this long for another process's lock before giving up
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_RETRY_MS = 50;
+// A lock older than this was left behind by a process that died while holding it
+const STALE_LOCK_MS = 30_000;
+
+const BLOCK_START = '# >>> worktree allocation (managed by worktree-tools, edits are overwritten)';
+const BLOCK_END = '# <<< worktree allocation';
+
+function registryPath(worktreesRoot: string): string {
+  return path.join(worktreesRoot, REGISTRY_FILE);
+}
+
+async function readRegistry(worktreesRoot: string): Promise<AllocationRegistry> {
+  try {
+    const registry = JSON.parse(await fs.readFile(registryPath(worktreesRoot), 'utf-8'));
+    return Array.isArray(registry.allocations) ? registry : { allocations: [] };
+  } catch {
+    return { allocations: [] };
+  }
+}
+
+async function writeRegistry(worktreesRoot: string, registry: AllocationRegistry): Promise<void> {
+  await fs.mkdir(worktreesRoot, { recursive: true });
+  // Write then rename, so a concurrent reader never sees a half-written file
+  const file = registryPath(worktreesRoot);
+  const temp = `${file}.${process.pid}-${randomUUID().slice(0, 8)}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(registry, null, 2) + '\n');
+  await fs.rename(temp, file);
+}
+
+/**
+ * Take the registry's lockfile, waiting while another process holds it. Returns the function that releases it
+ */
+async function acquireLockfile(worktreesRoot: string): Promise<() => Promise<void>> {
+  await fs.mkdir(worktreesRoot, { recursive: true });
+  const lockPath = `${registryPath(worktreesRoot)}.lock`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return () => fs.rm(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const lock = await fs.stat(lockPath).catch(() => null);
+    if (lock && Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}; remove it if no other worktree tool is running`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+// Registry updates of this process, chained so only one at a time goes for the lockfile
+let registryUpdates: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a read-modify-write of the registry alone: background jobs in this process queue up,
+ * other processes (another MCP server, a second client) wait on the lockfile
+ */
+function withRegistryLock<T>(worktreesRoot: string, update: () => Promise<T>): Promise<T> {
+  const run = registryUpdates.then(async () => {
+    const release = await acquireLockfile(worktreesRoot);
+    try {
+      return await update();
+    } finally {
+      await release();
+    }
+  });
+  registryUpdates = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Split the managed allocation block out of an env file's content
+ */
+export function splitManagedBlock(content: string): { content: string; block: string | null } {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END, start);
+  if (start === -1 || end === -1) {
+    return { content, block: null };
+  }
+  const blockEnd = end + BLOCK_END.length + (content[end + BLOCK_END.length] === '\n' ? 1 : 0);
+  return {
+    content: content.slice(0, start) + content.slice(blockEnd),
+    block: content.slice(start, blockEnd)
+  };
+}
+
+/**
+ * Append a managed block to env file content, on its own lines
+ */
+export function appendManagedBlock(content: string, block: string): string {
+  return content.length === 0 || content.endsWith('\n') ? content + block : `${content}\n${block}`;
+}
+
+/**
+ * Write the allocated values into the worktree's env file, replacing an earlier block and keeping everything else
+ */
+async function writeAllocationEnv(allocation: Allocation): Promise<void> {
+  const file = path.join(allocation.worktreePath, allocation.envFile);
+
+  // A symlinked env file is the main checkout's; writing through it would hand these ports to every worktree
+  const existing = await fs.lstat(file).catch(() => null);
+  if (existing?.isSymbolicLink()) {
+    throw new Error(`${allocation.envFile} is a symlink to a shared file; use a separate allocation.envFile`);
+  }
+
+  const lines = [
+    ...Object.entries(allocation.ports).map(([name, port]) => `${name}=${port}`),
+    ...Object.entries(allocation.variables).map(([name, value]) => `${name}=${value}`)
+  ];
+  const block = [BLOCK_START, ...lines, BLOCK_END].join('\n') + '\n';
+
+  const content = existing ? splitManagedBlock(await fs.readFile(file, 'utf-8')).content : '';
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, appendManagedBlock(content, block));
+}
+
+/**
+ * Assign a worktree the lowest free port block and a resource suffix, record it in the registry
+ * and write the values into its env file. A worktree that already has a block keeps it.
+ * Blocks of worktrees that were removed without cleanup_worktree are reclaimed first
+ */
+export async function allocateResources(
+  worktreesRoot: string,
+  mainRepoPath: string,
+  worktreePath: string,
+  branch: string,
+  settings: AllocationSettings
+): Promise<Allocation> {
+  const allocation = await withRegistryLock(worktreesRoot, async () => {
+    const registry = await readRegistry(worktreesRoot);
+
+    const live = new Set((await listWorktrees(mainRepoPath)).map(w => path.resolve(w.path)));
+    registry.allocations = registry.allocations.filter(a =>
+      path.resolve(a.mainRepoPath) !== path.resolve(mainRepoPath) || live.has(path.resolve(a.worktreePath))
+    );
+
+    let entry = registry.allocations.find(a => path.resolve(a.worktreePath) === path.resolve(worktreePath));
+    if (!entry) {
+      const taken = new Set(registry.allocations.map(a => a.block));
+      let block = 0;
+      while (taken.has(block)) {
+        block++;
+      }
+      if (block >= settings.maxBlocks) {
+        throw new Error(
+          `All ${settings.maxBlocks} port blocks are taken (registry: ${registryPath(worktreesRoot)}). ` +
+          'Clean up unused worktrees or raise allocation.maxBlocks'
+        );
+      }
+
+      const suffix = `wt${block}`;
+      const start = settings.basePort + block * settings.blockSize;
+      entry = {
+        worktreePath,
+        mainRepoPath,
+        branch,
+        block,
+        ports: Object.fromEntries(Object.entries(settings.ports).map(([name, offset]) => [name, start + offset])),
+        suffix,
+        variables: Object.fromEntries(Object.entries(settings.variables).map(([name, template]) => [
+          name,
+          template.replace(/\{suffix\}/g, suffix).replace(/\{block\}/g, String(block))
+        ])),
+        envFile: settings.envFile,
+        allocatedAt: new Date().toISOString()
+      };
+      registry.allocations.push(entry);
+    }
+
+    await writeRegistry(worktreesRoot, registry);
+    return entry;
+  });
+
+  await writeAllocationEnv(allocation);
+  return allocation;
+}
+
+/**
+ * Allocation of a worktree, or null when it has none
+ */
+export async function getAllocation(worktreesRoot: string, worktreePath: string): Promise<Allocation | null> {
+  const registry = await readRegistry(worktreesRoot);
+  return registry.allocations.find(a => path.resolve(a.worktreePath) === path.resolve(worktreePath)) ?? null;
+}
+
+/**
+ * Free a worktree's port block and suffix. Returns the released allocation, or null when it had none
+ */
+export async function releaseResources(worktreesRoot: string, worktreePath: string): Promise<Allocation | null> {
+  return withRegistryLock(worktreesRoot, async () => {
+    const registry = await readRegistry(worktreesRoot);
+    const allocation = registry.allocations.find(a => path.resolve(a.worktreePath) === path.resolve(worktreePath));
+    if (!allocation) {
+      return null;
+    }
+    registry.allocations = registry.allocations.filter(a => a !== allocation);
+    await writeRegistry(worktreesRoot, registry);
+    return allocation;
+  });
+}
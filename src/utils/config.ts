@@ -0,0 +1,590 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { HOOK_EVENTS, HookEvent } from './hooks.js';
+import { EDITOR_CHOICES, EditorChoice } from './ide.js';
+import { InstallCommand } from './dependencies.js';
+import { ReuseSetting } from './dependency-reuse.js';
+import { LocalFileMode, LocalFilesSettings } from './local-files.js';
+import { AllocationSettings } from './allocation.js';
+import { normalizeSparsePath } from './git.js';
+import { FORGE_KINDS, ForgeKind } from '../forges/types.js';
+import { TRACKER_KINDS, TrackerKind } from '../trackers/types.js';
+
+export interface ForgeSettings {
+  provider?: ForgeKind;
+  apiUrl?: string;
+}
+
+/**
+ * Per-repo configuration read from `.worktree-config` (or its `.json`/`.yaml`/`.yml` variants)
+ * in the main repository root
+ */
+export interface WorktreeConfig {
+  /** Username override (skips GitHub CLI / git config detection) */
+  username?: string;
+  /** Directory that holds all worktrees, relative to the main repo root. Supports {repo} */
+  worktreeRoot: string;
+  /** Template for new branch names. Supports {username}, {ticket}, {branch} */
+  branchTemplate: string;
+  /** Template for worktree paths under worktreeRoot. Supports {username}, {ticket}, {branch} */
+  pathTemplate: string;
+  /** Base branch for new worktrees and PRs (e.g. "develop"); auto-detected when unset */
+  baseBranch?: string;
+  /**
+   * Untracked local files (.env, certificates, editor settings) copied or symlinked from the main checkout
+   * into new worktrees. Unset keys keep their defaults
+   */
+  localFiles: LocalFilesSettings;
+  /** Deprecated: same as localFiles.include, which takes precedence */
+  copyFiles?: string[];
+  /**
+   * Port block and resource suffix per worktree, written into its env file. Off when unset;
+   * unset keys of a configured allocation take the defaults in DEFAULT_ALLOCATION
+   */
+  allocation?: AllocationSettings;
+  /** Install command run in new worktrees; same as a one-entry install list, which takes precedence */
+  installCommand?: string;
+  /**
+   * Install commands run in order in new worktrees, optionally in a subdirectory (a single string is accepted too).
+   * Detected from lockfiles when unset; an empty list skips installing
+   */
+  install?: InstallCommand[];
+  /**
+   * Clone node_modules from the main checkout instead of installing when the lockfile is identical:
+   * 'auto' uses copy-on-write clones where supported; 'hardlink' shares the files. Only applies to detected install steps
+   */
+  reuseDependencies: ReuseSetting;
+  /** Named sets of sparse-checkout cone paths for create_worktree's sparseProfile, e.g. { web: ["apps/web", "packages/ui"] } */
+  sparseProfiles: Record<string, string[]>;
+  /**
+   * Named sets of other repositories (paths relative to this repo's root) whose worktrees for a ticket are
+   * created, synced and cleaned up together with this repo's, e.g. { checkout: ["../api", "../shared-lib"] }
+   */
+  workspaces: Record<string, string[]>;
+  /** Shell commands run at fixed points of the worktree lifecycle (a single string is accepted too) */
+  hooks: Partial<Record<HookEvent, string[]>>;
+  /** Editor opened after create_worktree when openIde isn't passed, and the custom launcher command ({path} placeholder) */
+  ide: {
+    default?: EditorChoice;
+    command?: string;
+  };
+  /** Issue tracker link for a ticket, e.g. "https://acme.atlassian.net/browse/{ticket}" */
+  ticketUrl?: string;
+  /** Template for generated PR titles. Supports {ticket}, {summary}, {branch} */
+  prTitleTemplate: string;
+  /** PR body template: a name under .github/PULL_REQUEST_TEMPLATE/ or a path in the repo; auto-detected when unset */
+  prTemplate?: string;
+  /**
+   * Code forge for PR operations and its API base URL; detected from the origin URL when unset.
+   * Settings under hosts (keyed by hostname, e.g. a GitHub Enterprise host) take precedence
+   */
+  forge: ForgeSettings & {
+    hosts?: Record<string, ForgeSettings>;
+  };
+  /**
+   * Issue tracker ticket titles and types are looked up in, and its API base URL (the site URL for Jira).
+   * Detected from ticketUrl when unset
+   */
+  tracker: {
+    provider?: TrackerKind;
+    apiUrl?: string;
+  };
+  /** Absolute path of the config file that was loaded, or null when defaults are used */
+  configPath: string | null;
+}
+
+export const DEFAULT_CONFIG: Omit<WorktreeConfig, 'configPath'> = {
+  worktreeRoot: '../{repo}-worktrees',
+  branchTemplate: '{username}/{ticket}/{branch}',
+  pathTemplate: '{username}/{ticket}/{branch}',
+  localFiles: {
+    include: ['.env*'],
+    exclude: [],
+    mode: 'copy',
+    overwrite: false
+  },
+  reuseDependencies: false,
+  sparseProfiles: {},
+  workspaces: {},
+  prTitleTemplate: '[{ticket}] {summary}',
+  hooks: {},
+  ide: {},
+  forge: {},
+  tracker: {}
+};
+
+export const DEFAULT_ALLOCATION: AllocationSettings = {
+  basePort: 4000,
+  blockSize: 10,
+  maxBlocks: 100,
+  ports: { PORT: 0 },
+  variables: {},
+  envFile: '.env.local'
+};
+
+// Checked in order, first existing file wins
+const CONFIG_FILE_NAMES = [
+  '.worktree-config.json',
+  '.worktree-config.yaml',
+  '.worktree-config.yml',
+  '.worktree-config'
+];
+
+type FieldValidator = (value: unknown) => string | null;
+
+const expectString: FieldValidator = (value) =>
+  typeof value === 'string' && value.trim().length > 0 ? null : 'must be a non-empty string';
+
+const expectStringArray: FieldValidator = (value) =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0)
+    ? null
+    : 'must be an array of non-empty strings';
+
+const FIELD_VALIDATORS: Record<string, FieldValidator> = {
+  username: expectString,
+  worktreeRoot: expectWorktreeRoot,
+  branchTemplate: (value) => expectString(value) ?? expectTemplateVars(value as string, ['username', 'ticket', 'branch']),
+  pathTemplate: expectPathTemplate,
+  baseBranch: expectString,
+  localFiles: expectLocalFiles,
+  copyFiles: expectStringArray,
+  allocation: expectAllocation,
+  installCommand: expectString,
+  install: expectInstall,
+  reuseDependencies: (value) =>
+    value === false || ['auto', 'reflink', 'hardlink'].includes(value as string)
+      ? null
+      : 'must be false, "auto", "reflink" or "hardlink"',
+  sparseProfiles: expectSparseProfiles,
+  workspaces: expectWorkspaces,
+  hooks: expectHooks,
+  ide: expectIde,
+  ticketUrl: (value) => expectString(value) ?? expectTemplateVars(value as string, ['ticket']),
+  prTitleTemplate: (value) => expectString(value) ?? expectTemplateVars(value as string, ['ticket', 'summary', 'branch']),
+  prTemplate: expectString,
+  forge: expectForge,
+  tracker: expectTracker
+};
+
+function expectHooks(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `must be an object keyed by hook event (${HOOK_EVENTS.join(', ')})`;
+  }
+  for (const [event, commands] of Object.entries(value)) {
+    if (!HOOK_EVENTS.includes(event as HookEvent)) {
+      return `has unknown hook event "${event}" (allowed: ${HOOK_EVENTS.join(', ')})`;
+    }
+    if (expectString(commands) && expectStringArray(commands)) {
+      return `.${event} must be a command string or an array of command strings`;
+    }
+  }
+  return null;
+}
+
+function expectInstall(value: unknown): string | null {
+  const steps = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(steps)) {
+    return 'must be a command string or an array of commands';
+  }
+  for (const [index, step] of steps.entries()) {
+    if (typeof step === 'string') {
+      if (expectString(step)) {
+        return `[${index}] ${expectString(step)}`;
+      }
+      continue;
+    }
+    if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+      return `[${index}] must be a command string or an object with "command" and optional "cwd"`;
+    }
+    for (const [key, setting] of Object.entries(step)) {
+      if (key === 'command') {
+        if (expectString(setting)) {
+          return `[${index}].command ${expectString(setting)}`;
+        }
+      } else if (key === 'cwd') {
+        if (expectString(setting) || path.isAbsolute(setting as string) || (setting as string).split(/[\\/]/).includes('..')) {
+          return `[${index}].cwd must be a relative path inside the worktree`;
+        }
+      } else {
+        return `[${index}] has unknown key "${key}" (allowed: command, cwd)`;
+      }
+    }
+    if (!('command' in step)) {
+      return `[${index}] is missing "command"`;
+    }
+  }
+  return null;
+}
+
+function expectLocalFiles(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object with optional "include", "exclude", "mode" and "overwrite" keys';
+  }
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === 'include' || key === 'exclude') {
+      if (expectStringArray(setting)) {
+        return `.${key} ${expectStringArray(setting)}`;
+      }
+    } else if (key === 'mode') {
+      if (!['copy', 'symlink'].includes(setting as LocalFileMode)) {
+        return '.mode must be "copy" or "symlink"';
+      }
+    } else if (key === 'overwrite') {
+      if (typeof setting !== 'boolean') {
+        return '.overwrite must be true or false';
+      }
+    } else {
+      return `has unknown key "${key}" (allowed: include, exclude, mode, overwrite)`;
+    }
+  }
+  return null;
+}
+
+function expectAllocation(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `must be an object with optional ${Object.keys(DEFAULT_ALLOCATION).map(key => `"${key}"`).join(', ')} keys`;
+  }
+  const settings = { ...DEFAULT_ALLOCATION, ...value } as AllocationSettings;
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === 'basePort' || key === 'blockSize' || key === 'maxBlocks') {
+      if (!Number.isInteger(setting) || (setting as number) < 1) {
+        return `.${key} must be a positive integer`;
+      }
+    } else if (key === 'ports' || key === 'variables') {
+      if (typeof setting !== 'object' || setting === null || Array.isArray(setting)) {
+        return `.${key} must be an object keyed by env variable name`;
+      }
+      for (const [name, entry] of Object.entries(setting)) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+          return `.${key} has invalid env variable name "${name}"`;
+        }
+        if (key === 'ports' && (!Number.isInteger(entry) || (entry as number) < 0 || (entry as number) >= settings.blockSize)) {
+          return `.ports.${name} must be an offset from 0 to blockSize - 1 (${settings.blockSize - 1})`;
+        }
+        if (key === 'variables' && (expectString(entry) ?? expectTemplateVars(entry as string, ['suffix', 'block']))) {
+          return `.variables.${name} ${expectString(entry) ?? expectTemplateVars(entry as string, ['suffix', 'block'])}`;
+        }
+      }
+    } else if (key === 'envFile') {
+      if (expectString(setting) || path.isAbsolute(setting as string) || (setting as string).split(/[\\/]/).includes('..')) {
+        return '.envFile must be a relative path inside the worktree';
+      }
+    } else {
+      return `has unknown key "${key}" (allowed: ${Object.keys(DEFAULT_ALLOCATION).join(', ')})`;
+    }
+  }
+  if (settings.basePort + settings.blockSize * settings.maxBlocks - 1 > 65535) {
+    return 'runs past port 65535 (basePort + blockSize * maxBlocks)';
+  }
+  return null;
+}
+
+function expectSparseProfiles(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object mapping profile names to arrays of directory paths';
+  }
+  for (const [name, paths] of Object.entries(value)) {
+    if (expectStringArray(paths) || (paths as string[]).length === 0) {
+      return `.${name} must be a non-empty array of directory paths`;
+    }
+    const invalid = (paths as string[]).find(entry => normalizeSparsePath(entry) === null);
+    if (invalid !== undefined) {
+      return `.${name} has "${invalid}", which is not a directory path inside the repo`;
+    }
+  }
+  return null;
+}
+
+function expectWorkspaces(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object mapping workspace names to arrays of repository paths';
+  }
+  for (const [name, repos] of Object.entries(value)) {
+    if (expectStringArray(repos) || (repos as string[]).length === 0) {
+      return `.${name} must be a non-empty array of repository paths`;
+    }
+  }
+  return null;
+}
+
+function expectIde(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object with optional "default" and "command" keys';
+  }
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === 'default') {
+      if (!EDITOR_CHOICES.includes(setting as EditorChoice)) {
+        return `.default must be one of ${EDITOR_CHOICES.join(', ')}`;
+      }
+    } else if (key === 'command') {
+      if (expectString(setting)) {
+        return `.command ${expectString(setting)}`;
+      }
+    } else {
+      return `has unknown key "${key}" (allowed: default, command)`;
+    }
+  }
+  return null;
+}
+
+function expectForge(value: unknown): string | null {
+  return expectForgeSettings(value, true);
+}
+
+function expectForgeSettings(value: unknown, allowHosts: boolean): string | null {
+  const allowed = allowHosts ? ['provider', 'apiUrl', 'hosts'] : ['provider', 'apiUrl'];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `must be an object with optional ${allowed.map(key => `"${key}"`).join(', ')} keys`;
+  }
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === 'provider') {
+      if (!FORGE_KINDS.includes(setting as ForgeKind)) {
+        return `.provider must be one of ${FORGE_KINDS.join(', ')}`;
+      }
+    } else if (key === 'apiUrl') {
+      if (typeof setting !== 'string' || !/^https?:\/\//.test(setting)) {
+        return '.apiUrl must be an http(s) URL';
+      }
+    } else if (key === 'hosts' && allowHosts) {
+      if (typeof setting !== 'object' || setting === null || Array.isArray(setting)) {
+        return '.hosts must be an object keyed by hostname';
+      }
+      for (const [host, hostSettings] of Object.entries(setting)) {
+        const problem = expectForgeSettings(hostSettings, false);
+        if (problem) {
+          return `.hosts["${host}"]${problem.startsWith('.') ? problem : ` ${problem}`}`;
+        }
+      }
+    } else {
+      return `has unknown key "${key}" (allowed: ${allowed.join(', ')})`;
+    }
+  }
+  return null;
+}
+
+function expectTracker(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'must be an object with optional "provider" and "apiUrl" keys';
+  }
+  for (const [key, setting] of Object.entries(value)) {
+    if (key === 'provider') {
+      if (!TRACKER_KINDS.includes(setting as TrackerKind)) {
+        return `.provider must be one of ${TRACKER_KINDS.join(', ')}`;
+      }
+    } else if (key === 'apiUrl') {
+      if (typeof setting !== 'string' || !/^https?:\/\//.test(setting)) {
+        return '.apiUrl must be an http(s) URL';
+      }
+    } else {
+      return `has unknown key "${key}" (allowed: provider, apiUrl)`;
+    }
+  }
+  return null;
+}
+
+function expectTemplateVars(template: string, allowed: string[]): string | null {
+  for (const match of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!allowed.includes(match[1])) {
+      return `uses unknown placeholder {${match[1]}} (allowed: ${allowed.map(v => `{${v}}`).join(', ')})`;
+    }
+  }
+  return null;
+}
+
+function expectWorktreeRoot(value: unknown): string | null {
+  const invalid = expectString(value) ?? expectTemplateVars(value as string, ['repo']);
+  if (invalid) {
+    return invalid;
+  }
+  // {repo} is never empty, so only a bare "." (or "./") would put worktrees inside the main checkout
+  const normalized = path.normalize((value as string).trim());
+  return normalized === '.' || normalized === './' ? 'must name a directory other than the repo root' : null;
+}
+
+function expectPathTemplate(value: unknown): string | null {
+  const invalid = expectString(value) ?? expectTemplateVars(value as string, ['username', 'ticket', 'branch']);
+  if (invalid) {
+    return invalid;
+  }
+  // Render against a stand-in root: ".." segments or an absolute path would put worktrees outside worktreeRoot
+  const root = path.resolve('worktree-root');
+  const rendered = renderTemplate((value as string).trim(), { username: 'username', ticket: 'ticket', branch: 'branch' });
+  return path.isAbsolute(rendered) || !isInsideDirectory(root, path.join(root, rendered))
+    ? 'must be a relative path that stays inside worktreeRoot'
+    : null;
+}
+
+/**
+ * Whether target is strictly below root
+ */
+function isInsideDirectory(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Parse the legacy `KEY=VALUE` format (only USERNAME was ever supported)
+ */
+function parseLegacyConfig(content: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const match = content.match(/^USERNAME=(.+)$/m);
+  if (match && match[1]) {
+    result.username = match[1].trim();
+  }
+  return result;
+}
+
+function isLegacyConfig(content: string): boolean {
+  const lines = content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+  return lines.length > 0 && lines.every(line => /^[A-Z_]+=/.test(line));
+}
+
+function parseConfigFile(filePath: string, content: string): unknown {
+  const fileName = path.basename(filePath);
+
+  try {
+    if (fileName.endsWith('.json')) {
+      return JSON.parse(content);
+    }
+    if (fileName.endsWith('.yaml') || fileName.endsWith('.yml')) {
+      return parseYaml(content) ?? {};
+    }
+
+    // Extensionless file: JSON, legacy KEY=VALUE, or YAML
+    if (content.trim().length === 0) {
+      return {};
+    }
+    if (content.trim().startsWith('{')) {
+      return JSON.parse(content);
+    }
+    if (isLegacyConfig(content)) {
+      return parseLegacyConfig(content);
+    }
+    return parseYaml(content) ?? {};
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid worktree config (${filePath}): could not parse file: ${message}`);
+  }
+}
+
+/**
+ * Validate a parsed config object, collecting every problem into one error
+ */
+export function validateConfig(raw: unknown, filePath: string): Partial<WorktreeConfig> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid worktree config (${filePath}): top level must be an object`);
+  }
+
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    const validator = FIELD_VALIDATORS[key];
+    if (!validator) {
+      problems.push(`unknown key "${key}" (allowed: ${Object.keys(FIELD_VALIDATORS).join(', ')})`);
+      continue;
+    }
+    const problem = validator(value);
+    if (problem) {
+      problems.push(`"${key}" ${problem}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid worktree config (${filePath}):\n` +
+      problems.map(problem => `  - ${problem}`).join('\n')
+    );
+  }
+
+  const config = { ...raw } as Partial<WorktreeConfig>;
+
+  // Hooks accept a single command string for convenience
+  if (config.hooks) {
+    config.hooks = Object.fromEntries(
+      Object.entries(config.hooks).map(([event, commands]) => [
+        event,
+        typeof commands === 'string' ? [commands] : commands
+      ])
+    );
+  }
+
+  // Install steps accept plain command strings (or one string) for convenience
+  if (config.install) {
+    const steps = (typeof config.install === 'string' ? [config.install] : config.install) as (string | InstallCommand)[];
+    config.install = steps.map(step => typeof step === 'string' ? { command: step } : step);
+  }
+
+  return config;
+}
+
+/**
+ * Load the worktree config for a repository, applying defaults for unset fields
+ */
+export async function loadConfig(mainRepoRoot: string): Promise<WorktreeConfig> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = path.join(mainRepoRoot, fileName);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      // File doesn't exist, try the next candidate
+      continue;
+    }
+
+    const parsed = validateConfig(parseConfigFile(filePath, content), filePath);
+    return {
+      ...DEFAULT_CONFIG,
+      ...parsed,
+      localFiles: {
+        ...DEFAULT_CONFIG.localFiles,
+        ...(parsed.copyFiles ? { include: parsed.copyFiles } : {}),
+        ...parsed.localFiles
+      },
+      allocation: parsed.allocation ? { ...DEFAULT_ALLOCATION, ...parsed.allocation } : undefined,
+      configPath: filePath
+    };
+  }
+
+  return {
+    ...DEFAULT_CONFIG,
+    configPath: null
+  };
+}
+
+/**
+ * Replace {placeholders} in a template
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{([^}]*)\}/g, (placeholder, name: string) =>
+    name in vars ? vars[name] : placeholder
+  );
+}
+
+/**
+ * Resolve the absolute worktrees root directory for a repository
+ */
+export function resolveWorktreeRoot(config: WorktreeConfig, mainRepoRoot: string, repoName: string): string {
+  return path.resolve(mainRepoRoot, renderTemplate(config.worktreeRoot, { repo: repoName }));
+}
+
+/**
+ * Resolve the absolute path of a worktree from the configured root and path template
+ */
+export function resolveWorktreePath(
+  config: WorktreeConfig,
+  mainRepoRoot: string,
+  repoName: string,
+  vars: { username: string; ticket: string; branch: string }
+): string {
+  const root = resolveWorktreeRoot(config, mainRepoRoot, repoName);
+  const worktreePath = path.join(root, renderTemplate(config.pathTemplate, vars));
+  // The template is checked when the config loads; this catches ticket or branch names that climb out
+  if (!isInsideDirectory(root, worktreePath)) {
+    throw new Error(`Worktree path ${worktreePath} is outside the worktrees root ${root}; check the ticket and branch names`);
+  }
+  return worktreePath;
+}
@@ -0,0 +1,285 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import fs from 'fs/promises';
+import {
+  checkReusable,
+  getRecordedInstallTime,
+  isReusable,
+  recordInstallTime,
+  reuseDependencies,
+  ReuseOutcome,
+  ReuseSetting
+} from './dependency-reuse.js';
+import { isDirectoryInSparseCone } from './git.js';
+
+const execAsync = promisify(exec);
+
+export type Ecosystem = 'node' | 'python' | 'go' | 'rust' | 'ruby';
+
+/**
+ * An install command from .worktree-config, run in cwd (relative to the worktree root)
+ */
+export interface InstallCommand {
+  command: string;
+  cwd?: string;
+}
+
+export interface InstallStep {
+  command: string;
+  /** Directory the command ran in, relative to the worktree root ("." for the root) */
+  cwd: string;
+  /** Detected ecosystem and tool, null for configured commands */
+  ecosystem: Ecosystem | null;
+  tool: string | null;
+  exitCode: number;
+  /** Last lines of combined stdout and stderr */
+  outputTail: string;
+  durationMs: number;
+  /** Set when the main checkout's dependencies were cloned instead of installing */
+  reused?: ReuseOutcome & {
+    /** Last real install's duration minus this step's, null when no install was recorded yet */
+    savedMs: number | null;
+  };
+  /** Why reuse was enabled but the step installed anyway */
+  reuseSkipped?: string;
+  /** Why the step didn't run at all */
+  skipped?: string;
+}
+
+export interface InstallResult {
+  /** Where the steps came from: the install config, lockfile detection, or nothing to install */
+  source: 'config' | 'detected' | 'none';
+  steps: InstallStep[];
+  /** True when there was at least one step and every step exited 0 */
+  success: boolean;
+  /** Estimated time saved by reusing dependencies, null when nothing was reused or no estimate exists */
+  timeSavedMs: number | null;
+}
+
+export interface InstallOptions {
+  /** Main checkout to reuse dependencies from and to record install times in */
+  mainRepoPath?: string;
+  reuse?: ReuseSetting;
+  /** Kills the running step and skips the rest when aborted */
+  signal?: AbortSignal;
+  /** Cone paths of a sparse worktree; configured steps in directories outside them are skipped */
+  sparsePaths?: string[] | null;
+}
+
+interface Detector {
+  ecosystem: Ecosystem;
+  /** Lockfile or manifest marking a project root */
+  file: string;
+  tool: string;
+  command: string;
+}
+
+// First match per ecosystem and directory wins. Workspace members share the root's lockfile,
+// so a workspace (pnpm, yarn, npm, bun, uv, Cargo) is installed once from its root
+const DETECTORS: Detector[] = [
+  { ecosystem: 'node', file: 'bun.lock', tool: 'bun', command: 'bun install' },
+  { ecosystem: 'node', file: 'bun.lockb', tool: 'bun', command: 'bun install' },
+  { ecosystem: 'node', file: 'pnpm-lock.yaml', tool: 'pnpm', command: 'pnpm install' },
+  { ecosystem: 'node', file: 'yarn.lock', tool: 'yarn', command: 'yarn install' },
+  { ecosystem: 'node', file: 'package-lock.json', tool: 'npm', command: 'npm install' },
+  { ecosystem: 'python', file: 'uv.lock', tool: 'uv', command: 'uv sync' },
+  { ecosystem: 'python', file: 'poetry.lock', tool: 'poetry', command: 'poetry install' },
+  // A venv per worktree keeps installs from leaking into the main checkout's environment
+  {
+    ecosystem: 'python',
+    file: 'requirements.txt',
+    tool: 'pip',
+    command: 'python3 -m venv .venv && .venv/bin/pip install -r requirements.txt'
+  },
+  { ecosystem: 'go', file: 'go.mod', tool: 'go', command: 'go mod download' },
+  { ecosystem: 'rust', file: 'Cargo.lock', tool: 'cargo', command: 'cargo fetch' },
+  { ecosystem: 'ruby', file: 'Gemfile.lock', tool: 'bundler', command: 'bundle install' }
+];
+
+// Projects in a monorepo usually sit at most two levels down (apps/web, services/api)
+const MAX_DETECT_DEPTH = 2;
+
+const IGNORED_DIRECTORIES = ['node_modules', '.git', '.venv', 'venv', 'vendor', 'target', 'dist', 'build'];
+
+// Installs can be slow, but never hang the MCP call forever
+const INSTALL_TIMEOUT_MS = 300000; // 5 minutes
+
+const OUTPUT_TAIL_LINES = 20;
+
+function outputTail(stdout: string, stderr: string): string {
+  const lines = [stdout.trim(), stderr.trim()].filter(Boolean).join('\n').split('\n');
+  return lines.slice(-OUTPUT_TAIL_LINES).join('\n');
+}
+
+/**
+ * Detect install steps from lockfiles in the worktree root and subdirectories, root first
+ */
+export async function detectInstallSteps(
+  worktreePath: string
+): Promise<(InstallCommand & { ecosystem: Ecosystem; tool: string })[]> {
+  const { glob } = await import('glob');
+
+  const files = await glob(DETECTORS.map(detector => `**/${detector.file}`), {
+    cwd: worktreePath,
+    dot: false,
+    maxDepth: MAX_DETECT_DEPTH + 1,
+    nodir: true,
+    ignore: IGNORED_DIRECTORIES.map(dir => `**/${dir}/**`)
+  });
+  const found = new Set(files.map(file => file.split(path.sep).join('/')));
+
+  const directories = [...new Set([...found].map(file => path.posix.dirname(file)))]
+    .sort((a, b) => a === '.' ? -1 : b === '.' ? 1 : a.localeCompare(b));
+
+  const steps: (InstallCommand & { ecosystem: Ecosystem; tool: string })[] = [];
+  for (const dir of directories) {
+    const seen = new Set<Ecosystem>();
+    for (const detector of DETECTORS) {
+      if (seen.has(detector.ecosystem) || !found.has(path.posix.join(dir, detector.file))) {
+        continue;
+      }
+      seen.add(detector.ecosystem);
+      steps.push({ command: detector.command, cwd: dir, ecosystem: detector.ecosystem, tool: detector.tool });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * Clone the main checkout's dependencies for a detected step when its lockfile is identical.
+ * Returns the finished step, or the reason the step has to install
+ */
+async function tryReuse(
+  worktreePath: string,
+  mainRepoPath: string,
+  reuse: Exclude<ReuseSetting, false>,
+  step: Omit<InstallStep, 'exitCode' | 'outputTail' | 'durationMs'> & { tool: string },
+  projects: string[],
+  sparsePaths?: string[] | null
+): Promise<InstallStep | string> {
+  const reason = await checkReusable(mainRepoPath, worktreePath, step.tool, step.cwd);
+  if (reason) {
+    return reason;
+  }
+
+  const start = Date.now();
+  const outcome = await reuseDependencies(mainRepoPath, worktreePath, step.tool, step.cwd, reuse, projects, sparsePaths);
+  if (!outcome) {
+    return reuse === 'auto'
+      ? 'copy-on-write clones are not supported between the main checkout and the worktree ' +
+        '(reuseDependencies: "hardlink" shares the files instead)'
+      : `${reuse} is not supported between the main checkout and the worktree`;
+  }
+
+  const durationMs = Date.now() - start;
+  const recorded = await getRecordedInstallTime(mainRepoPath, `${step.cwd}:${step.command}`);
+  return {
+    ...step,
+    exitCode: 0,
+    outputTail: `Reused ${outcome.directories.join(', ') || 'nothing'} from the main checkout ` +
+      `(${outcome.method}, ${outcome.files} files)` +
+      (outcome.shared ? '\nFiles are shared with the main checkout: editing one in place changes it there too' : ''),
+    durationMs,
+    reused: { ...outcome, savedMs: recorded !== null ? Math.max(0, recorded - durationMs) : null }
+  };
+}
+
+/**
+ * Install dependencies with the configured commands, or the commands detected from lockfiles.
+ * Every step runs even when an earlier one fails, so the result shows everything that needs attention.
+ * With reuse enabled, detected Node steps whose lockfile matches the main checkout clone its node_modules instead
+ */
+export async function installDependencies(
+  worktreePath: string,
+  configured?: InstallCommand[],
+  options: InstallOptions = {}
+): Promise<InstallResult> {
+  const { mainRepoPath, reuse = false, signal, sparsePaths } = options;
+  const planned = configured
+    ? configured.map(step => ({ ...step, ecosystem: null, tool: null }))
+    : await detectInstallSteps(worktreePath);
+
+  if (planned.length === 0) {
+    return { source: 'none', steps: [], success: false, timeSavedMs: null };
+  }
+
+  // Nested projects are installed (or reused) by their own step
+  const projects = planned.map(step => step.cwd ?? '.');
+
+  const steps: InstallStep[] = [];
+  for (const step of planned) {
+    if (signal?.aborted) {
+      break;
+    }
+    const cwd = step.cwd ?? '.';
+    const base: Omit<InstallStep, 'exitCode' | 'outputTail' | 'durationMs'> = {
+      command: step.command,
+      cwd,
+      ecosystem: step.ecosystem,
+      tool: step.tool
+    };
+
+    // Detected steps only exist for checked-out lockfiles; configured ones may point anywhere
+    if (sparsePaths && !isDirectoryInSparseCone(cwd, sparsePaths)) {
+      steps.push({ ...base, exitCode: 0, outputTail: '', durationMs: 0, skipped: `${cwd} is outside the sparse checkout` });
+      continue;
+    }
+
+    if (reuse && mainRepoPath && step.tool && isReusable(step.tool)) {
+      const reused = await tryReuse(worktreePath, mainRepoPath, reuse, { ...base, tool: step.tool }, projects, sparsePaths);
+      if (typeof reused !== 'string') {
+        steps.push(reused);
+        continue;
+      }
+      base.reuseSkipped = reused;
+    }
+
+    const start = Date.now();
+
+    const directory = path.resolve(worktreePath, cwd);
+    if (!await fs.stat(directory).then(stat => stat.isDirectory(), () => false)) {
+      steps.push({ ...base, exitCode: 1, outputTail: `Directory not found: ${cwd}`, durationMs: 0 });
+      continue;
+    }
+
+    try {
+      const { stdout, stderr } = await execAsync(step.command, {
+        cwd: directory,
+        timeout: INSTALL_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+        signal
+      });
+      const durationMs = Date.now() - start;
+      steps.push({ ...base, exitCode: 0, outputTail: outputTail(stdout, stderr), durationMs });
+
+      if (mainRepoPath && step.tool) {
+        await recordInstallTime(mainRepoPath, `${cwd}:${step.command}`, durationMs).catch(() => undefined);
+      }
+    } catch (error) {
+      const execError = error as { code?: number | string; killed?: boolean; stdout?: string; stderr?: string };
+      const stderr = signal?.aborted
+        ? `${execError.stderr ?? ''}\nKilled: cancelled`
+        : execError.killed
+          ? `${execError.stderr ?? ''}\nKilled after ${INSTALL_TIMEOUT_MS}ms timeout`
+          : execError.stderr ?? String(error);
+      steps.push({
+        ...base,
+        exitCode: typeof execError.code === 'number' ? execError.code : 1,
+        outputTail: outputTail(execError.stdout ?? '', stderr),
+        durationMs: Date.now() - start
+      });
+    }
+  }
+
+  const savings = steps.filter(step => step.reused).map(step => step.reused!.savedMs);
+  return {
+    source: configured ? 'config' : 'detected',
+    steps,
+    success: steps.some(step => !step.skipped) && steps.every(step => step.exitCode === 0),
+    timeSavedMs: savings.some(saved => saved !== null)
+      ? savings.reduce<number>((sum, saved) => sum + (saved ?? 0), 0)
+      : null
+  };
+}
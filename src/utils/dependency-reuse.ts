@@ -0,0 +1,222 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import { simpleGit } from 'simple-git';
+import { isDirectoryInSparseCone } from './git.js';
+
+export type ReuseMethod = 'reflink' | 'hardlink';
+
+/**
+ * How dependencies may be reused from the main checkout: 'auto' uses copy-on-write clones where the
+ * filesystem supports them and installs otherwise; hardlinks share files with the main checkout, so they
+ * are only used when asked for. false always installs
+ */
+export type ReuseSetting = 'auto' | ReuseMethod | false;
+
+export interface ReuseOutcome {
+  method: ReuseMethod;
+  /** Directories cloned, relative to the worktree root */
+  directories: string[];
+  files: number;
+  /**
+   * The files are the main checkout's (hardlinks): writing one in place, e.g. a postinstall patch,
+   * changes it in the main checkout and every worktree that shares it
+   */
+  shared: boolean;
+}
+
+// Lockfile and the directories it fills, per detected tool
+const REUSABLE: Record<string, { lockfiles: string[]; directory: string }> = {
+  bun: { lockfiles: ['bun.lock', 'bun.lockb'], directory: 'node_modules' },
+  pnpm: { lockfiles: ['pnpm-lock.yaml'], directory: 'node_modules' },
+  yarn: { lockfiles: ['yarn.lock'], directory: 'node_modules' },
+  npm: { lockfiles: ['package-lock.json'], directory: 'node_modules' }
+};
+
+// Workspace packages get their own node_modules; they sit a few levels below the workspace root
+const MAX_SEARCH_DEPTH = 4;
+
+// Files cloned at once; keeps file descriptors in check on large node_modules trees
+const CLONE_CONCURRENCY = 64;
+
+const INSTALL_TIMES_FILE = 'worktree-install-times.json';
+
+export function isReusable(tool: string | null): boolean {
+  return tool !== null && tool in REUSABLE;
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why the main checkout's dependencies for a project can't be reused, or null when they can
+ */
+export async function checkReusable(
+  mainRepoPath: string,
+  worktreePath: string,
+  tool: string,
+  cwd: string
+): Promise<string | null> {
+  const { lockfiles, directory } = REUSABLE[tool];
+
+  const lockfile = (await Promise.all(
+    lockfiles.map(async name => (await readIfExists(path.join(worktreePath, cwd, name))) ? name : null)
+  )).find(name => name !== null);
+  if (!lockfile) {
+    return 'no lockfile in the worktree';
+  }
+
+  const [mainLock, worktreeLock] = await Promise.all([
+    readIfExists(path.join(mainRepoPath, cwd, lockfile)),
+    readIfExists(path.join(worktreePath, cwd, lockfile))
+  ]);
+  if (!mainLock || !worktreeLock || !mainLock.equals(worktreeLock)) {
+    return `${path.posix.join(cwd, lockfile)} differs from the main checkout`;
+  }
+
+  const installed = await fs.stat(path.join(mainRepoPath, cwd, directory)).then(stat => stat.isDirectory(), () => false);
+  if (!installed) {
+    return `the main checkout has no ${path.posix.join(cwd, directory)}`;
+  }
+  if (await fs.lstat(path.join(worktreePath, cwd, directory)).then(() => true, () => false)) {
+    return `${path.posix.join(cwd, directory)} already exists in the worktree`;
+  }
+
+  return null;
+}
+
+/**
+ * Find the dependency directories of a project: its own and those of workspace packages below it,
+ * skipping nested projects that are installed separately
+ */
+async function findDependencyDirectories(
+  root: string,
+  relative: string,
+  directory: string,
+  excluded: Set<string>,
+  depth = 0
+): Promise<string[]> {
+  const found: string[] = [];
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+  } catch {
+    return found;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === '.git') {
+      continue;
+    }
+    const child = path.posix.join(relative, entry.name);
+    if (entry.name === directory) {
+      found.push(child);
+    } else if (depth < MAX_SEARCH_DEPTH && !excluded.has(child)) {
+      found.push(...await findDependencyDirectories(root, child, directory, excluded, depth + 1));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Clone a directory tree file by file; symlinks are recreated as is, so relative links
+ * (pnpm's virtual store, workspace packages) point into the worktree
+ */
+async function cloneTree(source: string, target: string, method: ReuseMethod): Promise<number> {
+  await fs.mkdir(target, { recursive: true });
+  const entries = await fs.readdir(source, { withFileTypes: true });
+  let files = 0;
+
+  for (let i = 0; i < entries.length; i += CLONE_CONCURRENCY) {
+    const counts = await Promise.all(entries.slice(i, i + CLONE_CONCURRENCY).map(async entry => {
+      const from = path.join(source, entry.name);
+      const to = path.join(target, entry.name);
+
+      if (entry.isDirectory()) {
+        return cloneTree(from, to, method);
+      }
+      if (entry.isSymbolicLink()) {
+        await fs.symlink(await fs.readlink(from), to);
+        return 0;
+      }
+      if (method === 'reflink') {
+        await fs.copyFile(from, to, fsConstants.COPYFILE_FICLONE_FORCE);
+      } else {
+        await fs.link(from, to);
+      }
+      return 1;
+    }));
+    files += counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  return files;
+}
+
+/**
+ * Clone a project's dependency directories from the main checkout into the worktree. Returns null
+ * (with nothing left behind) when the method doesn't work, e.g. across filesystems
+ */
+export async function reuseDependencies(
+  mainRepoPath: string,
+  worktreePath: string,
+  tool: string,
+  cwd: string,
+  setting: Exclude<ReuseSetting, false>,
+  excludedProjects: string[],
+  sparsePaths?: string[] | null
+): Promise<ReuseOutcome | null> {
+  const { directory } = REUSABLE[tool];
+  const excluded = new Set(excludedProjects.filter(dir => dir !== cwd));
+  // The main checkout is complete; a sparse worktree only needs the dependencies of projects it checked out
+  const directories = (await findDependencyDirectories(mainRepoPath, cwd === '.' ? '' : cwd, directory, excluded))
+    .filter(dir => !sparsePaths || isDirectoryInSparseCone(path.posix.dirname(dir), sparsePaths));
+
+  // Never fall back to hardlinks on its own: they would silently tie the worktree to the main checkout
+  const method: ReuseMethod = setting === 'auto' ? 'reflink' : setting;
+  try {
+    let files = 0;
+    for (const dir of directories) {
+      files += await cloneTree(path.join(mainRepoPath, dir), path.join(worktreePath, dir), method);
+    }
+    return { method, directories, files, shared: method === 'hardlink' };
+  } catch (error) {
+    // Not supported by the filesystem (or a different device); undo so the step can install instead
+    await Promise.all(directories.map(dir => fs.rm(path.join(worktreePath, dir), { recursive: true, force: true })));
+    return null;
+  }
+}
+
+async function installTimesPath(mainRepoPath: string): Promise<string> {
+  const commonDir = (await simpleGit(mainRepoPath).revparse(['--git-common-dir'])).trim();
+  return path.join(path.resolve(mainRepoPath, commonDir), INSTALL_TIMES_FILE);
+}
+
+/**
+ * Duration of the last real install of a project, used to estimate the time reuse saved
+ */
+export async function getRecordedInstallTime(mainRepoPath: string, key: string): Promise<number | null> {
+  try {
+    const times = JSON.parse(await fs.readFile(await installTimesPath(mainRepoPath), 'utf-8'));
+    return typeof times[key] === 'number' ? times[key] : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordInstallTime(mainRepoPath: string, key: string, durationMs: number): Promise<void> {
+  const filePath = await installTimesPath(mainRepoPath);
+  let times: Record<string, number> = {};
+  try {
+    times = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    // First install
+  }
+  times[key] = durationMs;
+  await fs.writeFile(filePath, JSON.stringify(times, null, 2) + '\n');
+}
@@ -1,19 +1,70 @@
 import { simpleGit, SimpleGit, SimpleGitOptions } from 'simple-git';
 import path from 'path';
 import fs from 'fs/promises';
+import { getOriginUrl, parseRemoteUrl } from './remote.js';
 
 export interface WorktreeInfo {
   path: string;
   branch: string;
   head: string;
   isMain: boolean;
+  /** Why git considers the worktree prunable (e.g. its directory is missing) */
+  prunable?: string;
+  /** Lock reason (empty string when locked without one) */
+  locked?: string;
+}
+
+export type FileChangeType = 'modified' | 'added' | 'deleted' | 'renamed' | 'copied' | 'type_changed';
+
+export interface FileChange {
+  path: string;
+  change: FileChangeType;
+  /** Original path for renames and copies */
+  from?: string;
+}
+
+export type OperationType = 'rebase' | 'merge' | 'cherry-pick' | 'revert' | 'am' | 'bisect';
+
+export interface InProgressOperation {
+  type: OperationType;
+  /** Current step and total steps (rebase / am) */
+  step?: number;
+  totalSteps?: number;
+  /** Branch being rebased and the commit it is being replayed onto (rebase) */
+  headName?: string;
+  onto?: string;
 }
 
 export interface WorktreeStatus {
   clean: boolean;
+  /** Commits ahead/behind the upstream (0 when there is none) */
   ahead: number;
   behind: number;
   uncommitted: boolean;
+  /** Checked-out branch, null when HEAD is detached */
+  branch: string | null;
+  /** Divergence from the upstream, null when the branch doesn't track one */
+  upstream: {
+    branch: string;
+    ahead: number;
+    behind: number;
+    /** Upstream is configured but was deleted on the remote */
+    gone: boolean;
+  } | null;
+  /** Divergence from the resolved base branch, null when it can't be resolved */
+  base: {
+    branch: string;
+    ahead: number;
+    behind: number;
+  } | null;
+  files: {
+    staged: FileChange[];
+    unstaged: FileChange[];
+    untracked: string[];
+    conflicted: string[];
+  };
+  /** Rebase, merge, cherry-pick, ... stopped partway, null when none */
+  operation: InProgressOperation | null;
 }
 
 /**
@@ -40,18 +91,15 @@ export async function getMainRepoRoot(cwd?: string): Promise<string> {
  * Get repository name from remote URL or directory name
  */
 export async function getRepoName(repoPath: string): Promise<string> {
-  const git = simpleGit(repoPath);
-
   try {
-    const remotes = await git.getRemotes(true);
-    const originRemote = remotes.find(r => r.name === 'origin');
-
-    if (originRemote && originRemote.refs.fetch) {
-      // Extract repo name from URL (works for both HTTPS and SSH)
-      const match = originRemote.refs.fetch.match(/\/([^/]+?)(\.git)?$/);
-      if (match && match[1]) {
-        return match[1].toLowerCase();
-      }
+    const originUrl = await getOriginUrl(repoPath);
+    const remote = parseRemoteUrl(originUrl);
+    // Local path or file:// remotes: last path component
+    const name = remote
+      ? remote.name
+      : path.basename(originUrl.replace(/[/\\]+$/, '')).replace(/\.git$/, '');
+    if (name) {
+      return name.toLowerCase();
     }
   } catch (error) {
     // No remote or error fetching
@@ -86,6 +134,10 @@ export async function listWorktrees(repoPath: string): Promise<WorktreeInfo[]> {
       currentWorktree.head = line.substring('HEAD '.length);
     } else if (line.startsWith('branch ')) {
       currentWorktree.branch = line.substring('branch refs/heads/'.length);
+    } else if (line === 'prunable' || line.startsWith('prunable ')) {
+      currentWorktree.prunable = line.substring('prunable'.length).trim();
+    } else if (line === 'locked' || line.startsWith('locked ')) {
+      currentWorktree.locked = line.substring('locked'.length).trim();
     } else if (line === '') {
       if (currentWorktree.path) {
         result.push(currentWorktree as WorktreeInfo);
@@ -102,188 +154,781 @@ export async function listWorktrees(repoPath: string): Promise<WorktreeInfo[]> {
   return result;
 }
 
+export interface BaseBranch {
+  /** Branch name on the remote, e.g. "develop" or "release/2.3" */
+  name: string;
+  /** Remote-tracking ref, e.g. "origin/develop" */
+  ref: string;
+  source: 'argument' | 'branch_config' | 'repo_config' | 'origin_head';
+}
+
+// git config key recording which base a worktree branch was created from
+const BRANCH_BASE_CONFIG_KEY = 'worktreeBase';
+
 /**
- * Auto-detect the default branch (main or master)
+ * Auto-detect the default branch from origin/HEAD, falling back to asking the remote,
+ * then to origin/main or origin/master
  */
 export async function getDefaultBranch(repoPath: string): Promise<string> {
   const git = simpleGit(repoPath);
 
+  // origin/HEAD is set by clone (or `git remote set-head origin --auto`)
   try {
-    // Check if origin/main exists
-    await git.raw(['show-ref', '--verify', '--quiet', 'refs/remotes/origin/main']);
-    return 'origin/main';
+    const head = (await git.raw(['symbolic-ref', '--quiet', 'refs/remotes/origin/HEAD'])).trim();
+    if (head.startsWith('refs/remotes/')) {
+      return head.substring('refs/remotes/'.length);
+    }
   } catch {
-    // Try origin/master
-    try {
-      await git.raw(['show-ref', '--verify', '--quiet', 'refs/remotes/origin/master']);
-      return 'origin/master';
-    } catch {
-      throw new Error('Could not find origin/main or origin/master branch');
+    // origin/HEAD not set
+  }
+
+  // Ask the remote which branch its HEAD points to
+  try {
+    const output = await git.raw(['ls-remote', '--symref', 'origin', 'HEAD']);
+    const match = output.match(/^ref: refs\/heads\/(\S+)\s+HEAD$/m);
+    if (match && await refExists(repoPath, `refs/remotes/origin/${match[1]}`)) {
+      return `origin/${match[1]}`;
+    }
+  } catch {
+    // Remote unreachable
+  }
+
+  for (const candidate of ['main', 'master']) {
+    if (await refExists(repoPath, `refs/remotes/origin/${candidate}`)) {
+      return `origin/${candidate}`;
+    }
+  }
+
+  throw new Error('Could not determine the default branch: origin/HEAD is not set and neither origin/main nor origin/master exists');
+}
+
+/**
+ * Get the branch checked out in a worktree
+ */
+export async function getCurrentBranch(worktreePath: string): Promise<string> {
+  const git = simpleGit(worktreePath);
+  return (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+}
+
+/**
+ * Record the base branch a worktree branch was created from, so status and PRs use the same base
+ */
+export async function setBranchBase(repoPath: string, branchName: string, base: string): Promise<void> {
+  const git = simpleGit(repoPath);
+  await git.addConfig(`branch.${branchName}.${BRANCH_BASE_CONFIG_KEY}`, base);
+}
+
+/**
+ * Resolve the base branch with priority order:
+ * 1. Explicit argument (e.g. baseBranch on create_worktree / create_pr)
+ * 2. Base recorded for the branch when its worktree was created
+ * 3. baseBranch from the repo's worktree config
+ * 4. The remote's default branch (origin/HEAD)
+ */
+export async function resolveBaseBranch(
+  repoPath: string,
+  options: { explicit?: string; branchName?: string; configured?: string } = {}
+): Promise<BaseBranch> {
+  const git = simpleGit(repoPath);
+  let name: string | undefined;
+  let source: BaseBranch['source'] = 'origin_head';
+
+  if (options.explicit && options.explicit.trim()) {
+    name = options.explicit.trim();
+    source = 'argument';
+  } else if (options.branchName) {
+    const recorded = await git.getConfig(`branch.${options.branchName}.${BRANCH_BASE_CONFIG_KEY}`);
+    if (recorded.value) {
+      name = recorded.value;
+      source = 'branch_config';
     }
   }
+
+  if (!name && options.configured) {
+    name = options.configured;
+    source = 'repo_config';
+  }
+
+  if (!name) {
+    name = await getDefaultBranch(repoPath);
+  }
+
+  name = name.replace(/^origin\//, '');
+  const ref = `origin/${name}`;
+
+  if (!await refExists(repoPath, `refs/remotes/${ref}`)) {
+    throw new Error(`Base branch "${name}" not found on origin (looked for ${ref})`);
+  }
+
+  return { name, ref, source };
 }
 
 /**
- * Create a new worktree
+ * Create a new worktree, returning the base branch it was created from
  */
 export async function createWorktree(
   repoPath: string,
   worktreePath: string,
   branchName: string,
-  baseBranch?: string
-): Promise<void> {
+  base: { explicit?: string; configured?: string } = {},
+  sparsePaths?: string[]
+): Promise<BaseBranch> {
   const git = simpleGit(repoPath);
 
   // Fetch latest changes
   await git.fetch('origin');
 
-  // Auto-detect default branch if not provided
-  const branch = baseBranch || await getDefaultBranch(repoPath);
+  // Resolve the base (argument, then config, then origin/HEAD) now that remote refs are fresh
+  const baseBranch = await resolveBaseBranch(repoPath, base);
 
-  // Create worktree
+  // Create worktree; a sparse one is checked out only after its cone is set. The branch must not track
+  // the base (branch.autoSetupMerge would), or pushing it would push onto the base branch
   await git.raw([
     'worktree',
     'add',
+    ...(sparsePaths ? ['--no-checkout'] : []),
+    '--no-track',
     worktreePath,
     '-b',
     branchName,
-    branch
+    baseBranch.ref
   ]);
+
+  if (sparsePaths) {
+    const worktreeGit = simpleGit(worktreePath);
+    await worktreeGit.raw(['sparse-checkout', 'set', '--cone', '--', ...sparsePaths]);
+    await worktreeGit.raw(['checkout']);
+  }
+
+  // Remember the base so status, commit listing and PRs agree on it
+  await setBranchBase(repoPath, branchName, baseBranch.name);
+
+  return baseBranch;
 }
 
 /**
- * Remove a worktree
+ * Check whether a fully-qualified ref (e.g. refs/heads/foo) exists
  */
-export async function removeWorktree(repoPath: string, worktreePath: string): Promise<void> {
+export async function refExists(repoPath: string, ref: string): Promise<boolean> {
   const git = simpleGit(repoPath);
-  await git.raw(['worktree', 'remove', worktreePath, '--force']);
+
+  // show-ref --quiet exits non-zero without output, which simple-git doesn't treat as an error
+  const output = await git.raw(['for-each-ref', '--format=%(refname)', ref]);
+  return output.split('\n').includes(ref);
 }
 
 /**
- * Get worktree status
+ * Add a remote unless one with the same name already exists
+ */
+export async function ensureRemote(repoPath: string, name: string, url: string): Promise<void> {
+  const git = simpleGit(repoPath);
+  const remotes = await git.getRemotes();
+
+  if (!remotes.some(r => r.name === name)) {
+    await git.addRemote(name, url);
+  }
+}
+
+/**
+ * Create a worktree for an existing branch.
+ * Without a start point the local branch is checked out as-is; otherwise a new local branch
+ * is created from the start point, tracking it when it is a remote-tracking branch.
+ */
+export async function checkoutWorktree(
+  repoPath: string,
+  worktreePath: string,
+  localBranch: string,
+  startPoint?: string,
+  track: boolean = true
+): Promise<void> {
+  const git = simpleGit(repoPath);
+
+  if (!startPoint) {
+    await git.raw(['worktree', 'add', worktreePath, localBranch]);
+    return;
+  }
+
+  await git.raw([
+    'worktree',
+    'add',
+    track ? '--track' : '--no-track',
+    '-b',
+    localBranch,
+    worktreePath,
+    startPoint
+  ]);
+}
+
+/**
+ * Normalize a sparse-checkout cone path ("./packages/a/" -> "packages/a"), or null when it isn't
+ * a directory inside the repo
+ */
+export function normalizeSparsePath(value: string): string | null {
+  const normalized = path.posix.normalize(value.trim().replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!normalized || normalized === '.' || path.posix.isAbsolute(normalized) || normalized.split('/').includes('..')) {
+    return null;
+  }
+  return normalized;
+}
+
+/**
+ * Cone paths of a sparse worktree, or null when the whole tree is checked out.
+ * Sparse settings are per worktree, so the main checkout stays complete
+ */
+export async function getSparsePaths(worktreePath: string): Promise<string[] | null> {
+  const git = simpleGit(worktreePath);
+
+  // Exits non-zero without output when unset, which simple-git doesn't treat as an error
+  if ((await git.raw(['config', '--get', 'core.sparseCheckout'])).trim() !== 'true') {
+    return null;
+  }
+  return (await git.raw(['sparse-checkout', 'list'])).split('\n').filter(Boolean);
+}
+
+/**
+ * Add cone paths to a sparse worktree, or check out everything when paths is null
+ */
+export async function widenSparseCheckout(worktreePath: string, paths: string[] | null): Promise<void> {
+  const git = simpleGit(worktreePath);
+  await git.raw(paths ? ['sparse-checkout', 'add', '--', ...paths] : ['sparse-checkout', 'disable']);
+}
+
+/**
+ * Whether a file is checked out in a cone-mode sparse worktree: files at the root, directly in a
+ * parent directory of a cone path, or anywhere below one are
  */
-export async function getWorktreeStatus(worktreePath: string): Promise<WorktreeStatus> {
+export function isInSparseCone(filePath: string, sparsePaths: string[]): boolean {
+  const dir = path.posix.dirname(filePath);
+  return dir === '.' || sparsePaths.some(cone =>
+    filePath.startsWith(`${cone}/`) || cone.startsWith(`${dir}/`) || cone === dir
+  );
+}
+
+/**
+ * Whether a directory has files in a cone-mode sparse worktree: the root, cone paths and everything below them,
+ * and the parent directories of cone paths
+ */
+export function isDirectoryInSparseCone(dir: string, sparsePaths: string[]): boolean {
+  return dir === '.' || sparsePaths.some(cone => dir === cone || dir.startsWith(`${cone}/`) || cone.startsWith(`${dir}/`));
+}
+
+/**
+ * Remove a worktree. Without force, git refuses to remove worktrees with modified or untracked files
+ */
+export async function removeWorktree(repoPath: string, worktreePath: string, force: boolean = false): Promise<void> {
+  const git = simpleGit(repoPath);
+  await git.raw(['worktree', 'remove', worktreePath, ...(force ? ['--force'] : [])]);
+}
+
+export interface UnsavedWork {
+  /** Tracked files with staged or unstaged changes */
+  uncommitted: string[];
+  untracked: string[];
+  /** Commits not on the upstream (or on any remote when there is none), as "<sha> <subject>" */
+  unpushed: string[];
+}
+
+export interface PreservedWork {
+  method: 'stash' | 'patch' | 'bundle';
+  /** Stash entry and commit holding uncommitted/untracked changes (method "stash") */
+  stashRef?: string;
+  stashCommit?: string;
+  /** Patch or bundle files written (method "patch"/"bundle") */
+  files: string[];
+}
+
+/**
+ * Rev-list arguments selecting commits that only exist locally
+ */
+async function getUnpushedRange(worktreePath: string): Promise<string[]> {
+  const git = simpleGit(worktreePath);
+
+  try {
+    await git.revparse(['--abbrev-ref', '@{upstream}']);
+    return ['@{upstream}..HEAD'];
+  } catch {
+    // No upstream (or it was deleted): anything not on a remote is unpushed
+    return ['HEAD', '--not', '--remotes'];
+  }
+}
+
+/**
+ * Find work that would be lost by removing a worktree: uncommitted, untracked and unpushed changes
+ */
+export async function getUnsavedWork(worktreePath: string): Promise<UnsavedWork> {
   const git = simpleGit(worktreePath);
 
-  // Check if clean
   const status = await git.status();
-  const clean = status.files.length === 0;
+  const untracked = status.not_added;
+  const uncommitted = status.files
+    .map(file => file.path)
+    .filter(file => !untracked.includes(file));
+
+  const log = await git.raw(['log', '--format=%h %s', ...await getUnpushedRange(worktreePath)]);
+  const unpushed = log.split('\n').filter(line => line.trim().length > 0);
+
+  return { uncommitted, untracked, unpushed };
+}
+
+/**
+ * Save a worktree's unsaved work before it is removed.
+ * - stash: uncommitted and untracked changes go to a stash entry (shared by all worktrees);
+ *   unpushed commits stay on the branch
+ * - patch: unpushed commits as a format-patch series, uncommitted changes as a separate diff
+ * - bundle: unpushed commits as a git bundle, uncommitted changes as a separate diff
+ */
+export async function preserveWork(
+  worktreePath: string,
+  method: PreservedWork['method'],
+  backupDir: string,
+  label: string
+): Promise<PreservedWork> {
+  const git = simpleGit(worktreePath);
+  const work = await getUnsavedWork(worktreePath);
+  const hasChanges = work.uncommitted.length > 0 || work.untracked.length > 0;
+  const baseName = path.join(backupDir, `${label.replace(/[^A-Za-z0-9._-]+/g, '-')}-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+  const result: PreservedWork = { method, files: [] };
+
+  if (method === 'stash') {
+    if (hasChanges) {
+      await git.raw(['stash', 'push', '--include-untracked', '-m', `worktree-tools: ${label}`]);
+      result.stashRef = 'stash@{0}';
+      result.stashCommit = (await git.revparse(['stash@{0}'])).trim();
+    }
+    return result;
+  }
+
+  await fs.mkdir(backupDir, { recursive: true });
+
+  // Diff of uncommitted changes, including untracked files (the index is discarded with the worktree)
+  let changesDiff = '';
+  if (hasChanges) {
+    await git.raw(['add', '--all']);
+    changesDiff = await git.raw(['diff', '--cached', '--binary', 'HEAD']);
+  }
+
+  const range = await getUnpushedRange(worktreePath);
+
+  // Unpushed commits: a bundle (git fetch/pull from it) or an mbox patch series (git am)
+  if (work.unpushed.length > 0) {
+    if (method === 'bundle') {
+      const bundlePath = `${baseName}.bundle`;
+      await git.raw(['bundle', 'create', bundlePath, ...range]);
+      result.files.push(bundlePath);
+    } else {
+      const patchPath = `${baseName}.patch`;
+      await fs.writeFile(patchPath, await git.raw(['format-patch', '--stdout', '--binary', ...range]));
+      result.files.push(patchPath);
+    }
+  }
+
+  // Uncommitted changes: a plain diff (git apply)
+  if (changesDiff) {
+    const patchPath = `${baseName}.uncommitted.patch`;
+    await fs.writeFile(patchPath, changesDiff);
+    result.files.push(patchPath);
+  }
+
+  return result;
+}
+
+/**
+ * Count commits on each side of a symmetric difference (left...right)
+ */
+async function countAheadBehind(worktreePath: string, left: string, right: string): Promise<{ ahead: number; behind: number }> {
+  const git = simpleGit(worktreePath);
+  const aheadBehind = await git.raw([
+    'rev-list',
+    '--left-right',
+    '--count',
+    `${left}...${right}`
+  ]);
+
+  const parts = aheadBehind.trim().split('\t');
+  return parts.length === 2
+    ? { behind: parseInt(parts[0], 10) || 0, ahead: parseInt(parts[1], 10) || 0 }
+    : { ahead: 0, behind: 0 };
+}
+
+const FILE_CHANGE_CODES: Record<string, FileChangeType> = {
+  M: 'modified',
+  A: 'added',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type_changed'
+};
+
+interface ParsedStatus {
+  branch: string | null;
+  upstream: string | null;
+  upstreamGone: boolean;
+  ahead: number;
+  behind: number;
+  files: WorktreeStatus['files'];
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z` output
+ */
+function parsePorcelainStatus(output: string): ParsedStatus {
+  const parsed: ParsedStatus = {
+    branch: null,
+    upstream: null,
+    upstreamGone: false,
+    ahead: 0,
+    behind: 0,
+    files: { staged: [], unstaged: [], untracked: [], conflicted: [] }
+  };
+  let hasAheadBehind = false;
+
+  const entries = output.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+
+    if (entry.startsWith('# branch.head ')) {
+      const head = entry.substring('# branch.head '.length);
+      parsed.branch = head === '(detached)' ? null : head;
+    } else if (entry.startsWith('# branch.upstream ')) {
+      parsed.upstream = entry.substring('# branch.upstream '.length);
+    } else if (entry.startsWith('# branch.ab ')) {
+      const match = entry.match(/^# branch\.ab \+(\d+) -(\d+)$/);
+      if (match) {
+        hasAheadBehind = true;
+        parsed.ahead = parseInt(match[1], 10);
+        parsed.behind = parseInt(match[2], 10);
+      }
+    } else if (entry.startsWith('1 ') || entry.startsWith('2 ')) {
+      // 1 XY sub mH mI mW hH hI path
+      // 2 XY sub mH mI mW hH hI Xscore path, followed by the original path as the next entry
+      const isRenameOrCopy = entry.startsWith('2 ');
+      const fields = entry.split(' ');
+      const xy = fields[1];
+      const filePath = fields.slice(isRenameOrCopy ? 9 : 8).join(' ');
+      const from = isRenameOrCopy ? entries[++i] : undefined;
+
+      if (xy[0] !== '.') {
+        parsed.files.staged.push({ path: filePath, change: FILE_CHANGE_CODES[xy[0]] ?? 'modified', ...(from ? { from } : {}) });
+      }
+      if (xy[1] !== '.') {
+        parsed.files.unstaged.push({ path: filePath, change: FILE_CHANGE_CODES[xy[1]] ?? 'modified' });
+      }
+    } else if (entry.startsWith('u ')) {
+      // u XY sub m1 m2 m3 mW h1 h2 h3 path
+      parsed.files.conflicted.push(entry.split(' ').slice(10).join(' '));
+    } else if (entry.startsWith('? ')) {
+      parsed.files.untracked.push(entry.substring(2));
+    }
+  }
+
+  // An upstream without ahead/behind info means the remote branch no longer exists
+  parsed.upstreamGone = parsed.upstream !== null && !hasAheadBehind;
 
-  // Get ahead/behind info
-  let ahead = 0;
-  let behind = 0;
+  return parsed;
+}
 
+async function readGitFile(gitDir: string, name: string): Promise<string | null> {
   try {
-    const branch = await git.revparse(['--abbrev-ref', 'HEAD']);
-    const tracking = await git.revparse(['--abbrev-ref', `${branch}@{upstream}`]);
-
-    const aheadBehind = await git.raw([
-      'rev-list',
-      '--left-right',
-      '--count',
-      `${tracking}...${branch}`
-    ]);
-
-    const parts = aheadBehind.trim().split('\t');
-    if (parts.length === 2) {
-      behind = parseInt(parts[0], 10) || 0;
-      ahead = parseInt(parts[1], 10) || 0;
+    return (await fs.readFile(path.join(gitDir, name), 'utf-8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+async function gitPathExists(gitDir: string, name: string): Promise<boolean> {
+  return fs.access(path.join(gitDir, name)).then(() => true, () => false);
+}
+
+/**
+ * Detect a rebase, merge, cherry-pick, revert, am or bisect stopped partway in a worktree
+ */
+export async function getInProgressOperation(worktreePath: string): Promise<InProgressOperation | null> {
+  const git = simpleGit(worktreePath);
+
+  // Each worktree has its own git dir (.git/worktrees/<name>) holding these state files
+  const gitDir = path.resolve(worktreePath, (await git.revparse(['--git-dir'])).trim());
+
+  for (const dir of ['rebase-merge', 'rebase-apply']) {
+    if (!await gitPathExists(gitDir, dir)) {
+      continue;
     }
+
+    const isAm = dir === 'rebase-apply' && await gitPathExists(gitDir, 'rebase-apply/applying');
+    const step = await readGitFile(gitDir, dir === 'rebase-merge' ? 'rebase-merge/msgnum' : 'rebase-apply/next');
+    const total = await readGitFile(gitDir, dir === 'rebase-merge' ? 'rebase-merge/end' : 'rebase-apply/last');
+    const headName = await readGitFile(gitDir, `${dir}/head-name`);
+    const onto = await readGitFile(gitDir, `${dir}/onto`);
+
+    return {
+      type: isAm ? 'am' : 'rebase',
+      ...(step ? { step: parseInt(step, 10) } : {}),
+      ...(total ? { totalSteps: parseInt(total, 10) } : {}),
+      ...(headName ? { headName: headName.replace(/^refs\/heads\//, '') } : {}),
+      ...(onto ? { onto } : {})
+    };
+  }
+
+  const markers: [string, OperationType][] = [
+    ['MERGE_HEAD', 'merge'],
+    ['CHERRY_PICK_HEAD', 'cherry-pick'],
+    ['REVERT_HEAD', 'revert'],
+    ['BISECT_LOG', 'bisect']
+  ];
+  for (const [marker, type] of markers) {
+    if (await gitPathExists(gitDir, marker)) {
+      return { type };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get worktree status
+ */
+export async function getWorktreeStatus(worktreePath: string, configuredBase?: string): Promise<WorktreeStatus> {
+  const git = simpleGit(worktreePath);
+
+  // Staged, unstaged, untracked and conflicted files plus upstream divergence in one call
+  const parsed = parsePorcelainStatus(await git.raw(['status', '--porcelain=v2', '--branch', '-z']));
+  const { files } = parsed;
+  const clean = files.staged.length === 0 &&
+    files.unstaged.length === 0 &&
+    files.untracked.length === 0 &&
+    files.conflicted.length === 0;
+
+  const upstream: WorktreeStatus['upstream'] = parsed.upstream
+    ? { branch: parsed.upstream, ahead: parsed.ahead, behind: parsed.behind, gone: parsed.upstreamGone }
+    : null;
+
+  // Get divergence from the base branch the worktree was created from
+  let base: WorktreeStatus['base'] = null;
+  try {
+    const baseBranch = await resolveBaseBranch(worktreePath, {
+      branchName: parsed.branch ?? undefined,
+      configured: configuredBase
+    });
+    base = { branch: baseBranch.name, ...await countAheadBehind(worktreePath, baseBranch.ref, 'HEAD') };
   } catch (error) {
-    // No tracking branch or error
+    // Base branch can't be resolved (no origin)
   }
 
   return {
     clean,
-    ahead,
-    behind,
-    uncommitted: !clean
+    ahead: upstream ? upstream.ahead : 0,
+    behind: upstream ? upstream.behind : 0,
+    uncommitted: !clean,
+    branch: parsed.branch,
+    upstream,
+    base,
+    files,
+    operation: await getInProgressOperation(worktreePath)
   };
 }
 
+export type SyncStrategy = 'rebase' | 'merge';
+
 /**
- * Delete a branch
+ * Run a git command that may stop on conflicts. Returns false when it stopped partway
+ * (an operation is left in progress), true when it completed; other failures are rethrown.
  */
-export async function deleteBranch(repoPath: string, branchName: string): Promise<void> {
-  const git = simpleGit(repoPath);
-  await git.deleteLocalBranch(branchName, true);
+async function runStoppable(worktreePath: string, args: string[]): Promise<boolean> {
+  // Never open an editor for commit messages: the MCP server has no terminal
+  const git = simpleGit(worktreePath).env({ ...process.env, GIT_EDITOR: 'true' });
+
+  try {
+    await git.raw(args);
+    // simple-git only rejects when git writes to stderr, so a conflicted merge can look successful
+    return (await getInProgressOperation(worktreePath)) === null;
+  } catch (error) {
+    if (await getInProgressOperation(worktreePath)) {
+      return false;
+    }
+    throw error;
+  }
 }
 
 /**
- * Detect package manager from lock files
+ * Rebase or merge the checked-out branch onto a base ref
  */
-export async function detectPackageManager(worktreePath: string): Promise<string | null> {
-  try {
-    await fs.access(path.join(worktreePath, 'pnpm-lock.yaml'));
-    return 'pnpm';
-  } catch {}
+export async function integrateBase(
+  worktreePath: string,
+  baseRef: string,
+  strategy: SyncStrategy,
+  autostash: boolean = false
+): Promise<boolean> {
+  const stash = autostash ? ['--autostash'] : ['--no-autostash'];
+  const args = strategy === 'rebase'
+    ? ['rebase', ...stash, baseRef]
+    : ['merge', ...stash, '--no-edit', baseRef];
+
+  return runStoppable(worktreePath, args);
+}
 
-  try {
-    await fs.access(path.join(worktreePath, 'package-lock.json'));
-    return 'npm';
-  } catch {}
+/**
+ * Continue a rebase or merge after conflicts were resolved and staged
+ */
+export async function continueOperation(worktreePath: string, strategy: SyncStrategy): Promise<boolean> {
+  return runStoppable(worktreePath, [strategy, '--continue']);
+}
 
-  try {
-    await fs.access(path.join(worktreePath, 'yarn.lock'));
-    return 'yarn';
-  } catch {}
+/**
+ * Abort a rebase or merge, restoring the branch (and any autostash) to where it was
+ */
+export async function abortOperation(worktreePath: string, strategy: SyncStrategy): Promise<void> {
+  const git = simpleGit(worktreePath);
+  await git.raw([strategy, '--abort']);
+}
 
-  return null;
+export interface PushOutcome {
+  status: 'pushed' | 'up_to_date' | 'rejected';
+  /** True when the remote branch was rewritten (force-with-lease) */
+  forced: boolean;
+  /** True when the remote branch didn't exist before */
+  created: boolean;
+  /** git's reason for a rejection, e.g. "non-fast-forward", "stale info", "pre-receive hook declined" */
+  reason?: string;
+  /** Rejected by the remote (hooks, branch protection) rather than by git's own checks */
+  remoteRejected?: boolean;
 }
 
 /**
- * Install dependencies using detected package manager
+ * Push HEAD to a branch on a remote, optionally with --force-with-lease and upstream tracking.
+ * Rejections are returned rather than thrown; other failures (auth, network) are rethrown
  */
-export async function installDependencies(worktreePath: string): Promise<{ success: boolean; packageManager: string | null }> {
-  const packageManager = await detectPackageManager(worktreePath);
-
-  if (!packageManager) {
-    return { success: false, packageManager: null };
+export async function pushBranch(
+  worktreePath: string,
+  remote: string,
+  remoteBranch: string,
+  options: { forceWithLease?: boolean; setUpstream?: boolean } = {}
+): Promise<PushOutcome> {
+  // Never prompt for credentials: the MCP server has no terminal
+  const git = simpleGit(worktreePath).env({ ...process.env, GIT_TERMINAL_PROMPT: '0' });
+  const args = ['push', '--porcelain'];
+  if (options.setUpstream) {
+    args.push('--set-upstream');
   }
+  if (options.forceWithLease) {
+    args.push(`--force-with-lease=refs/heads/${remoteBranch}`);
+  }
+  args.push(remote, `HEAD:refs/heads/${remoteBranch}`);
 
-  const { exec } = await import('child_process');
-  const { promisify } = await import('util');
-  const execAsync = promisify(exec);
-
+  let output: string;
   try {
-    await execAsync(`${packageManager} install`, {
-      cwd: worktreePath,
-      timeout: 300000 // 5 minutes
-    });
-    return { success: true, packageManager };
+    output = await git.raw(args);
   } catch (error) {
-    throw new Error(`Failed to install dependencies with ${packageManager}: ${error}`);
+    // simple-git puts git's stdout (the porcelain ref lines) into the error message
+    output = error instanceof Error ? error.message : String(error);
+    if (!/^!\t/m.test(output)) {
+      throw new Error(`git push to ${remote} failed: ${output.trim()}`);
+    }
   }
+
+  // Porcelain ref line: <flag>\t<from>:<to>\t<summary> (<reason>)
+  const line = output.split('\n').find(l => /^[ +\-*!=]\t/.test(l) && l.includes(`refs/heads/${remoteBranch}`));
+  if (!line) {
+    throw new Error(`Unexpected git push output: ${output.trim()}`);
+  }
+
+  const flag = line[0];
+  const summary = line.split('\t')[2] ?? '';
+  const reason = summary.match(/\((.+)\)\s*$/)?.[1];
+
+  if (flag === '!') {
+    return { status: 'rejected', forced: false, created: false, reason, remoteRejected: summary.includes('[remote rejected]') };
+  }
+
+  return {
+    status: flag === '=' ? 'up_to_date' : 'pushed',
+    forced: flag === '+',
+    created: flag === '*'
+  };
 }
 
 /**
- * Find and copy .env files from main repo to worktree
+ * Check whether a branch's upstream was deleted on the remote (needs a `fetch --prune`)
  */
-export async function copyEnvFiles(mainRepoPath: string, worktreePath: string): Promise<number> {
-  const { glob } = await import('glob');
+export async function isUpstreamGone(repoPath: string, branchName: string): Promise<boolean> {
+  const git = simpleGit(repoPath);
+  const track = await git.raw(['for-each-ref', '--format=%(upstream:track)', `refs/heads/${branchName}`]);
+  return track.trim() === '[gone]';
+}
 
-  // Find all .env* files in main repo (up to 3 levels deep)
-  const envFiles = await glob('.env*', {
-    cwd: mainRepoPath,
-    dot: true,
-    maxDepth: 3,
-    nodir: true
-  });
+/**
+ * Check whether a branch has been merged into a base ref.
+ * Branches that never got a commit of their own (only the creation entry in their reflog)
+ * are not reported as merged, so fresh worktrees aren't mistaken for finished ones.
+ */
+export async function isBranchMerged(repoPath: string, branchName: string, baseRef: string): Promise<boolean> {
+  const git = simpleGit(repoPath);
+  const ref = `refs/heads/${branchName}`;
 
-  let copiedCount = 0;
+  const merged = await git.raw(['for-each-ref', `--merged=${baseRef}`, '--format=%(refname)', ref]);
+  if (!merged.split('\n').includes(ref)) {
+    return false;
+  }
 
-  for (const envFile of envFiles) {
-    const sourcePath = path.join(mainRepoPath, envFile);
-    const targetPath = path.join(worktreePath, envFile);
+  try {
+    const reflog = await git.raw(['reflog', 'show', '--format=%H', ref]);
+    return reflog.trim().split('\n').filter(Boolean).length > 1;
+  } catch {
+    // No reflog (e.g. core.logAllRefUpdates disabled): trust the ancestry check
+    return true;
+  }
+}
+
+export interface WorktreeActivity {
+  at: Date;
+  /** commit: the branch's latest commit not on its base, created: when the branch was created, modified: the directory's mtime */
+  source: 'commit' | 'created' | 'modified';
+}
 
-    // Create target directory if needed
-    const targetDir = path.dirname(targetPath);
-    await fs.mkdir(targetDir, { recursive: true });
+/**
+ * When a worktree was last worked on: the latest commit it has on top of its base, otherwise when its branch
+ * (or detached HEAD) was created, otherwise when its directory last changed. The base's own commits don't
+ * count, so a new branch off an old base isn't mistaken for an abandoned one
+ */
+export async function getLastActivity(
+  worktreePath: string,
+  branchName: string | undefined,
+  baseRef: string | null
+): Promise<WorktreeActivity | null> {
+  const git = simpleGit(worktreePath);
 
-    // Copy file
-    await fs.copyFile(sourcePath, targetPath);
-    copiedCount++;
+  if (baseRef) {
+    try {
+      const timestamp = (await git.raw(['log', '-1', '--format=%ct', `${baseRef}..HEAD`])).trim();
+      if (timestamp) {
+        return { at: new Date(parseInt(timestamp, 10) * 1000), source: 'commit' };
+      }
+    } catch {
+      // Base ref missing; fall back to when the branch was created
+    }
+  }
+
+  try {
+    // Entries read "<ref>@{<unix time>}", newest first; the oldest is the branch's creation unless the reflog was expired
+    const ref = branchName ? `refs/heads/${branchName}` : 'HEAD';
+    const reflog = (await git.raw(['reflog', 'show', '--date=unix', '--format=%gd', ref])).trim();
+    const created = reflog.split('\n').filter(Boolean).at(-1)?.match(/@\{(\d+)\}$/);
+    if (created) {
+      return { at: new Date(parseInt(created[1], 10) * 1000), source: 'created' };
+    }
+  } catch {
+    // No reflog (e.g. core.logAllRefUpdates disabled)
   }
 
-  return copiedCount;
+  try {
+    return { at: (await fs.stat(worktreePath)).mtime, source: 'modified' };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete a branch. Without force, git refuses to delete branches that aren't fully merged
+ */
+export async function deleteBranch(repoPath: string, branchName: string, force: boolean = false): Promise<void> {
+  const git = simpleGit(repoPath);
+  await git.deleteLocalBranch(branchName, force);
 }
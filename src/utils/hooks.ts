@@ -0,0 +1,105 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+export type HookEvent = 'postCreate' | 'preCleanup' | 'postCleanup' | 'prePR';
+
+export const HOOK_EVENTS: HookEvent[] = ['postCreate', 'preCleanup', 'postCleanup', 'prePR'];
+
+export interface HookResult {
+  event: HookEvent;
+  command: string;
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+export interface HookContext {
+  cwd: string;
+  worktreePath: string;
+  mainRepoPath: string;
+  branchName?: string;
+}
+
+// Hooks can be slow (codegen, migrations), but never hang the MCP call forever
+const HOOK_TIMEOUT_MS = 300000; // 5 minutes
+
+// Keep tool results readable when a hook is chatty
+const MAX_OUTPUT_LENGTH = 4000;
+
+function tail(output: string): string {
+  const trimmed = output.trimEnd();
+  return trimmed.length > MAX_OUTPUT_LENGTH
+    ? `…${trimmed.slice(trimmed.length - MAX_OUTPUT_LENGTH)}`
+    : trimmed;
+}
+
+/**
+ * Run every command configured for a hook event, in order.
+ *
+ * Pre-hooks (preCleanup, prePR) stop at the first failure and throw, aborting the operation.
+ * Post-hooks run all commands and report failures in the results.
+ */
+export async function runHooks(
+  event: HookEvent,
+  commands: string[] | undefined,
+  context: HookContext
+): Promise<HookResult[]> {
+  const results: HookResult[] = [];
+  if (!commands || commands.length === 0) {
+    return results;
+  }
+
+  const env = {
+    ...process.env,
+    WORKTREE_HOOK: event,
+    WORKTREE_PATH: context.worktreePath,
+    WORKTREE_MAIN_REPO: context.mainRepoPath,
+    WORKTREE_BRANCH: context.branchName ?? ''
+  };
+
+  for (const command of commands) {
+    const start = Date.now();
+    let result: HookResult;
+
+    try {
+      const { stdout, stderr } = await execAsync(command, {
+        cwd: context.cwd,
+        env,
+        timeout: HOOK_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024
+      });
+      result = {
+        event,
+        command,
+        exitCode: 0,
+        stdout: tail(stdout),
+        stderr: tail(stderr),
+        durationMs: Date.now() - start
+      };
+    } catch (error) {
+      const execError = error as { code?: number | string; killed?: boolean; stdout?: string; stderr?: string };
+      result = {
+        event,
+        command,
+        exitCode: typeof execError.code === 'number' ? execError.code : 1,
+        stdout: tail(execError.stdout ?? ''),
+        stderr: tail(execError.killed ? `${execError.stderr ?? ''}\nKilled after ${HOOK_TIMEOUT_MS}ms timeout` : execError.stderr ?? String(error)),
+        durationMs: Date.now() - start
+      };
+    }
+
+    results.push(result);
+
+    if (result.exitCode !== 0 && event.startsWith('pre')) {
+      throw new Error(
+        `${event} hook failed (exit code ${result.exitCode}): ${command}\n` +
+        (result.stderr || result.stdout || '(no output)')
+      );
+    }
+  }
+
+  return results;
+}
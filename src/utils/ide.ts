@@ -0,0 +1,160 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+
+export type EditorId = 'cursor' | 'vscode' | 'jetbrains' | 'zed' | 'custom';
+
+export type EditorChoice = EditorId | 'auto';
+
+export const EDITOR_CHOICES: EditorChoice[] = ['cursor', 'vscode', 'jetbrains', 'zed', 'custom', 'auto'];
+
+export interface IdeLaunchResult {
+  launched: boolean;
+  editor?: EditorId;
+  command?: string;
+  reason?: string;
+}
+
+interface EditorLauncher {
+  id: Exclude<EditorId, 'custom'>;
+  /** Candidate binaries, first one found on PATH is used */
+  binaries: string[];
+}
+
+// Order matters: 'auto' picks the first launcher with a binary on PATH
+const LAUNCHERS: EditorLauncher[] = [
+  { id: 'cursor', binaries: ['cursor'] },
+  { id: 'vscode', binaries: ['code', 'code-insiders', 'codium'] },
+  { id: 'zed', binaries: ['zed', 'zeditor'] },
+  {
+    id: 'jetbrains',
+    binaries: ['idea', 'webstorm', 'pycharm', 'goland', 'rider', 'phpstorm', 'rubymine', 'clion', 'rustrover']
+  }
+];
+
+/**
+ * Find an executable on PATH
+ */
+export async function findOnPath(binary: string): Promise<string | null> {
+  const dirs = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+  const extensions = process.platform === 'win32'
+    ? (process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';')
+    : [''];
+
+  for (const dir of dirs) {
+    for (const extension of extensions) {
+      const candidate = path.join(dir, binary + extension);
+      try {
+        await fs.access(candidate, fs.constants.X_OK);
+        return candidate;
+      } catch {
+        // Not here, keep looking
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Spawn a detached process without waiting for it to exit.
+ * Resolves as soon as the process has started (or failed to start).
+ */
+function spawnDetached(command: string, args: string[], shell: boolean): Promise<string | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { detached: true, stdio: 'ignore', shell });
+    child.once('error', (error) => resolve(error.message));
+    child.once('spawn', () => {
+      child.unref();
+      resolve(null);
+    });
+  });
+}
+
+function quoteForShell(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+async function launchCustom(worktreePath: string, commandTemplate?: string): Promise<IdeLaunchResult> {
+  if (!commandTemplate) {
+    return {
+      launched: false,
+      editor: 'custom',
+      reason: 'No custom editor command configured (set ide.command in .worktree-config)'
+    };
+  }
+
+  const command = commandTemplate.includes('{path}')
+    ? commandTemplate.split('{path}').join(quoteForShell(worktreePath))
+    : `${commandTemplate} ${quoteForShell(worktreePath)}`;
+
+  const error = await spawnDetached(command, [], true);
+  return error
+    ? { launched: false, editor: 'custom', command, reason: `Failed to start custom editor: ${error}` }
+    : { launched: true, editor: 'custom', command };
+}
+
+async function launchKnown(launcher: EditorLauncher, worktreePath: string): Promise<IdeLaunchResult> {
+  for (const binary of launcher.binaries) {
+    const binaryPath = await findOnPath(binary);
+    if (!binaryPath) {
+      continue;
+    }
+
+    const command = `${binary} ${worktreePath}`;
+    const error = await spawnDetached(binaryPath, [worktreePath], false);
+    return error
+      ? { launched: false, editor: launcher.id, command, reason: `Failed to start ${binary}: ${error}` }
+      : { launched: true, editor: launcher.id, command };
+  }
+
+  return {
+    launched: false,
+    editor: launcher.id,
+    reason: `None of ${launcher.binaries.join(', ')} found on PATH`
+  };
+}
+
+/**
+ * Open a worktree in an editor. Never throws and never waits for the editor to exit.
+ *
+ * 'auto' prefers the configured custom command, then the first known editor found on PATH.
+ */
+export async function openInEditor(
+  worktreePath: string,
+  choice: EditorChoice,
+  customCommand?: string
+): Promise<IdeLaunchResult> {
+  try {
+    if (choice === 'custom') {
+      return await launchCustom(worktreePath, customCommand);
+    }
+
+    if (choice === 'auto') {
+      if (customCommand) {
+        return await launchCustom(worktreePath, customCommand);
+      }
+      for (const launcher of LAUNCHERS) {
+        const result = await launchKnown(launcher, worktreePath);
+        if (result.launched || result.command) {
+          return result;
+        }
+      }
+      return {
+        launched: false,
+        reason: `No supported editor found on PATH (looked for ${LAUNCHERS.flatMap(l => l.binaries).join(', ')})`
+      };
+    }
+
+    const launcher = LAUNCHERS.find(l => l.id === choice);
+    if (!launcher) {
+      return { launched: false, reason: `Unknown editor: ${choice}` };
+    }
+    return await launchKnown(launcher, worktreePath);
+  } catch (error) {
+    return {
+      launched: false,
+      reason: `Failed to open editor: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createHash } from 'crypto';
+import { simpleGit } from 'simple-git';
+import { appendManagedBlock, splitManagedBlock } from './allocation.js';
+import { getSparsePaths, isInSparseCone } from './git.js';
+
+export type LocalFileMode = 'copy' | 'symlink';
+
+/**
+ * Untracked local files (secrets, editor settings, certificates) propagated from the main checkout
+ */
+export interface LocalFilesSettings {
+  /** Globs relative to the main repo root */
+  include: string[];
+  exclude: string[];
+  mode: LocalFileMode;
+  /** Replace files that differ in the worktree; by default only untouched earlier copies are updated */
+  overwrite: boolean;
+}
+
+export interface LocalFileResult {
+  /** Path relative to the repo root */
+  path: string;
+  action: 'copied' | 'updated' | 'linked' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface LocalFilesReport {
+  files: LocalFileResult[];
+  copied: number;
+  updated: number;
+  linked: number;
+  skipped: number;
+  failed: number;
+}
+
+// Never descend into dependency or VCS directories
+const ALWAYS_EXCLUDED = ['**/node_modules/**', '.git/**', '**/.git/**'];
+
+// Per-worktree record (in the worktree's git dir) of the content each copy was made from
+const MANIFEST_FILE = 'worktree-local-files.json';
+
+function hash(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash of a worktree file without its allocation block, which belongs to the worktree rather
+ * than to the copied content, and the block itself so updates can keep it
+ */
+async function readTarget(filePath: string): Promise<{ hash: string; block: string | null } | null> {
+  const content = await fs.readFile(filePath).catch(() => null);
+  if (!content) {
+    return null;
+  }
+  const split = splitManagedBlock(content.toString('utf-8'));
+  return split.block ? { hash: hash(split.content), block: split.block } : { hash: hash(content), block: null };
+}
+
+async function manifestPath(worktreePath: string): Promise<string> {
+  const gitDir = (await simpleGit(worktreePath).revparse(['--git-dir'])).trim();
+  return path.join(path.resolve(worktreePath, gitDir), MANIFEST_FILE);
+}
+
+async function readManifest(filePath: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Decide what to do with one file and do it
+ */
+async function propagateFile(
+  relativePath: string,
+  source: string,
+  target: string,
+  settings: LocalFilesSettings,
+  manifest: Record<string, string>
+): Promise<LocalFileResult> {
+  const sourceContent = await fs.readFile(source).catch(() => null);
+  if (!sourceContent) {
+    return { path: relativePath, action: 'failed', reason: 'could not read the file in the main checkout' };
+  }
+  const sourceHash = hash(sourceContent);
+
+  const existing = await fs.lstat(target).catch(() => null);
+  const pointsAtSource = existing?.isSymbolicLink() && path.resolve(path.dirname(target), await fs.readlink(target)) === source;
+  const current = existing?.isFile() ? await readTarget(target) : null;
+  const targetHash = current?.hash ?? null;
+  // Untouched since we copied it, so replacing it can't lose work done in the worktree
+  const untouchedCopy = targetHash !== null && manifest[relativePath] === targetHash;
+
+  if (settings.mode === 'symlink') {
+    if (pointsAtSource) {
+      return { path: relativePath, action: 'skipped', reason: 'up to date' };
+    }
+    if (current?.block) {
+      return { path: relativePath, action: 'skipped', reason: 'holds the worktree\'s port allocation' };
+    }
+    if (existing && !untouchedCopy && !settings.overwrite) {
+      return { path: relativePath, action: 'skipped', reason: 'already exists in the worktree' };
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    if (existing) {
+      await fs.rm(target, { force: true });
+    }
+    await fs.symlink(source, target);
+    delete manifest[relativePath];
+    return existing
+      ? { path: relativePath, action: 'linked', reason: 'replaced the existing file' }
+      : { path: relativePath, action: 'linked' };
+  }
+
+  if (!existing) {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(source, target);
+    manifest[relativePath] = sourceHash;
+    return { path: relativePath, action: 'copied' };
+  }
+
+  if (targetHash === sourceHash) {
+    manifest[relativePath] = sourceHash;
+    return { path: relativePath, action: 'skipped', reason: 'up to date' };
+  }
+
+  if (!untouchedCopy && !pointsAtSource && !settings.overwrite) {
+    return {
+      path: relativePath,
+      action: 'skipped',
+      reason: manifest[relativePath] ? 'changed in the worktree' : 'already exists in the worktree'
+    };
+  }
+
+  if (existing.isDirectory()) {
+    return { path: relativePath, action: 'skipped', reason: 'a directory exists at this path in the worktree' };
+  }
+  await fs.rm(target, { force: true });
+  if (current?.block) {
+    await fs.writeFile(target, appendManagedBlock(sourceContent.toString('utf-8'), current.block));
+  } else {
+    await fs.copyFile(source, target);
+  }
+  manifest[relativePath] = sourceHash;
+  return {
+    path: relativePath,
+    action: 'updated',
+    reason: pointsAtSource ? 'replaced the symlink' : untouchedCopy ? 'changed in the main checkout' : 'overwritten'
+  };
+}
+
+/**
+ * Copy or link the configured local files from the main checkout into a worktree.
+ * Files tracked in the worktree are never touched; existing files are only replaced when
+ * they are unchanged earlier copies, or when overwrite is set. In a sparse worktree only
+ * files inside the checked-out paths are propagated
+ */
+export async function propagateLocalFiles(
+  mainRepoPath: string,
+  worktreePath: string,
+  settings: LocalFilesSettings
+): Promise<LocalFilesReport> {
+  const report: LocalFilesReport = { files: [], copied: 0, updated: 0, linked: 0, skipped: 0, failed: 0 };
+  if (settings.include.length === 0) {
+    return report;
+  }
+
+  const { glob } = await import('glob');
+  const matches = (await glob(settings.include, {
+    cwd: mainRepoPath,
+    dot: true,
+    nodir: true,
+    ignore: [...ALWAYS_EXCLUDED, ...settings.exclude]
+  })).map(file => file.split(path.sep).join('/')).sort();
+
+  // Tracked files come from the branch itself; overwriting them would show up as local changes
+  const tracked = new Set(
+    matches.length > 0
+      ? (await simpleGit(worktreePath).raw(['--literal-pathspecs', 'ls-files', '-z', '--', ...matches])).split('\0').filter(Boolean)
+      : []
+  );
+
+  const sparsePaths = await getSparsePaths(worktreePath);
+
+  const manifestFile = await manifestPath(worktreePath);
+  const manifest = await readManifest(manifestFile);
+
+  for (const file of matches) {
+    let result: LocalFileResult;
+    if (tracked.has(file)) {
+      result = { path: file, action: 'skipped', reason: 'tracked in git' };
+    } else if (sparsePaths && !isInSparseCone(file, sparsePaths)) {
+      result = { path: file, action: 'skipped', reason: 'outside the sparse checkout' };
+    } else {
+      try {
+        result = await propagateFile(file, path.join(mainRepoPath, file), path.join(worktreePath, file), settings, manifest);
+      } catch (error) {
+        result = { path: file, action: 'failed', reason: error instanceof Error ? error.message : String(error) };
+      }
+    }
+    report.files.push(result);
+    report[result.action]++;
+  }
+
+  await fs.writeFile(manifestFile, JSON.stringify(manifest, null, 2) + '\n');
+  return report;
+}
@@ -0,0 +1,349 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { getCurrentBranch, resolveBaseBranch } from './git.js';
+import { renderTemplate } from './config.js';
+import { extractTicket } from './ticket.js';
+import { TicketInfo } from '../trackers/types.js';
+
+export interface CommitInfo {
+  hash: string;
+  subject: string;
+  body: string;
+}
+
+export interface DiffStat {
+  files: { path: string; insertions: number; deletions: number }[];
+  insertions: number;
+  deletions: number;
+}
+
+export interface PRContentOptions {
+  /** Base ref to compare against (e.g. "origin/main"); the branch's base is resolved when omitted */
+  baseRef?: string;
+  /** Ticket for the title and link; extracted from the branch name when omitted */
+  ticket?: string;
+  /** Tracker URL pattern with {ticket} */
+  ticketUrl?: string;
+  /** Ticket looked up in the issue tracker; its ID, URL and title take precedence */
+  ticketInfo?: TicketInfo;
+  /** Title template with {ticket}, {summary}, {branch} */
+  titleTemplate?: string;
+  /** Named template or path; the repository's default PR template is used when omitted */
+  template?: string;
+}
+
+export interface PRContent {
+  title: string;
+  body: string;
+  /** Repository-relative path of the PR template that was filled in, null when none was found */
+  template: string | null;
+}
+
+interface ConventionalCommit {
+  type: string | null;
+  scope: string | null;
+  breaking: boolean;
+  description: string;
+}
+
+// Conventional-commit types in the order their sections appear in the body
+const COMMIT_GROUPS: [string, string][] = [
+  ['feat', 'Features'],
+  ['fix', 'Bug Fixes'],
+  ['perf', 'Performance'],
+  ['refactor', 'Refactoring'],
+  ['docs', 'Documentation'],
+  ['test', 'Tests'],
+  ['build', 'Build'],
+  ['ci', 'CI'],
+  ['style', 'Style'],
+  ['chore', 'Chores'],
+  ['revert', 'Reverts']
+];
+
+// Default template locations, checked in order (GitHub, then GitLab and Gitea conventions)
+const TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+  '.gitlab/merge_request_templates/Default.md',
+  '.gitea/pull_request_template.md'
+];
+
+// Directories holding named templates
+const NAMED_TEMPLATE_DIRS = [
+  '.github/PULL_REQUEST_TEMPLATE',
+  '.gitlab/merge_request_templates'
+];
+
+const MAX_DIFFSTAT_FILES = 50;
+
+/**
+ * Get the commits since branching from base, oldest first
+ */
+export async function getCommitsSinceBase(repoPath: string, baseRef?: string): Promise<CommitInfo[]> {
+  const git = simpleGit(repoPath);
+
+  // Get current branch
+  const currentBranch = await getCurrentBranch(repoPath);
+
+  // Resolve the branch's base if not provided
+  const branch = baseRef || (await resolveBaseBranch(repoPath, { branchName: currentBranch })).ref;
+
+  // Get commits between base and current branch
+  const log = await git.log({
+    from: branch,
+    to: currentBranch
+  });
+
+  return log.all
+    .map(commit => ({ hash: commit.hash, subject: commit.message, body: commit.body.trim() }))
+    .reverse();
+}
+
+/**
+ * Lines added and removed per file between the merge base and HEAD
+ */
+export async function getDiffStat(repoPath: string, baseRef: string): Promise<DiffStat> {
+  const output = await simpleGit(repoPath).raw(['diff', '--numstat', `${baseRef}...HEAD`]);
+  const files = output
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map(line => {
+      const [insertions, deletions, ...file] = line.split('\t');
+      // Binary files report "-" for both counts
+      return {
+        path: file.join('\t'),
+        insertions: insertions === '-' ? 0 : Number(insertions),
+        deletions: deletions === '-' ? 0 : Number(deletions)
+      };
+    });
+
+  return {
+    files,
+    insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0)
+  };
+}
+
+function parseConventionalCommit(commit: CommitInfo): ConventionalCommit {
+  const match = commit.subject.match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s+(.+)$/);
+  if (!match) {
+    return { type: null, scope: null, breaking: false, description: commit.subject };
+  }
+
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2] || null,
+    breaking: match[3] === '!' || /^BREAKING[ -]CHANGE:/m.test(commit.body),
+    description: match[4]
+  };
+}
+
+/**
+ * Find the PR template: a named one when requested, otherwise the repository default
+ */
+async function findTemplate(repoPath: string, name?: string): Promise<{ path: string; content: string } | null> {
+  let candidates: string[];
+  if (name) {
+    const fileName = name.endsWith('.md') ? name : `${name}.md`;
+    candidates = [...NAMED_TEMPLATE_DIRS.map(dir => `${dir}/${fileName}`), name];
+  } else {
+    candidates = TEMPLATE_PATHS;
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const content = await fs.readFile(path.join(repoPath, candidate), 'utf-8');
+      return { path: candidate, content };
+    } catch {
+      // Not there, try the next candidate
+    }
+  }
+
+  if (name) {
+    throw new Error(
+      `PR template "${name}" not found (looked in ${NAMED_TEMPLATE_DIRS.join(', ')} and the repository root)`
+    );
+  }
+  return null;
+}
+
+/**
+ * Strip a leading ticket reference ("[CO-12] ", "CO-12: ") and capitalize
+ */
+function toSummary(text: string, ticket: string | null): string {
+  const stripped = ticket
+    ? text.replace(new RegExp(`^\\[?${ticket.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]?[:\\s-]*`, 'i'), '')
+    : text;
+  return stripped.charAt(0).toUpperCase() + stripped.slice(1);
+}
+
+function formatCommit(commit: CommitInfo): string {
+  const parsed = parseConventionalCommit(commit);
+  const grouped = COMMIT_GROUPS.some(([type]) => type === parsed.type);
+  const scope = grouped && parsed.scope ? `**${parsed.scope}:** ` : '';
+  const breaking = parsed.breaking ? '**BREAKING** ' : '';
+  return `- ${breaking}${scope}${grouped ? parsed.description : commit.subject} (${commit.hash.substring(0, 7)})`;
+}
+
+/**
+ * Commit list grouped by conventional-commit type, or a flat list when no commit follows the convention
+ */
+function formatChanges(commits: CommitInfo[]): string {
+  const parsed = commits.map(commit => ({ commit, type: parseConventionalCommit(commit).type }));
+  const knownTypes = new Set(COMMIT_GROUPS.map(([type]) => type));
+
+  if (parsed.every(entry => !entry.type || !knownTypes.has(entry.type))) {
+    return commits.map(formatCommit).join('\n');
+  }
+
+  const sections: string[] = [];
+  for (const [type, heading] of COMMIT_GROUPS) {
+    const group = parsed.filter(entry => entry.type === type);
+    if (group.length > 0) {
+      sections.push(`### ${heading}\n\n${group.map(entry => formatCommit(entry.commit)).join('\n')}`);
+    }
+  }
+
+  const other = parsed.filter(entry => !entry.type || !knownTypes.has(entry.type));
+  if (other.length > 0) {
+    sections.push(`### Other Changes\n\n${other.map(entry => formatCommit(entry.commit)).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+function formatDiffStat(stat: DiffStat): string {
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  const summary = `${plural(stat.files.length, 'file')} changed, ` +
+    `${plural(stat.insertions, 'insertion')}(+), ${plural(stat.deletions, 'deletion')}(-)`;
+
+  const lines = stat.files
+    .slice(0, MAX_DIFFSTAT_FILES)
+    .map(file => `- \`${file.path}\` (+${file.insertions} -${file.deletions})`);
+  if (stat.files.length > MAX_DIFFSTAT_FILES) {
+    lines.push(`- ...and ${stat.files.length - MAX_DIFFSTAT_FILES} more`);
+  }
+
+  return `${summary}\n\n<details>\n<summary>Files</summary>\n\n${lines.join('\n')}\n\n</details>`;
+}
+
+type SectionKind = 'ticket' | 'summary' | 'changes' | 'diffstat';
+
+// Checked in order; "what changed" must match changes before "what" matches summary
+const SECTION_HEADINGS: [SectionKind, RegExp][] = [
+  ['diffstat', /\b(diffstat|files changed|stats?)\b/i],
+  ['changes', /\b(changes|commits|changelog|what changed)\b/i],
+  ['ticket', /\b(tickets?|issues?|jira|linear|related|links?)\b/i],
+  ['summary', /\b(summary|description|overview|what|why|context|motivation)\b/i]
+];
+
+/**
+ * Fill a PR template. Templates may use {{summary}}, {{changes}}, {{ticket}}, {{diffstat}} and {{title}};
+ * otherwise generated content goes under matching empty headings ("## Summary", "## Changes", ...),
+ * and whatever doesn't fit is added at the top (ticket, summary) or bottom (changes, diffstat)
+ */
+function fillTemplate(template: string, title: string, sections: Partial<Record<SectionKind, string>>): string {
+  if (/\{\{\s*\w+\s*\}\}/.test(template)) {
+    const values: Record<string, string> = { title, ...sections, commits: sections.changes ?? '' };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+      name in values ? values[name] ?? '' : placeholder
+    );
+  }
+
+  const lines = template.split('\n');
+  const placed = new Set<SectionKind>();
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    output.push(lines[i]);
+
+    const heading = lines[i].match(/^#{1,6}\s+(.+)$/);
+    if (!heading) {
+      continue;
+    }
+
+    // Section content up to the next heading; only fill sections with nothing but comments
+    let end = i + 1;
+    while (end < lines.length && !/^#{1,6}\s/.test(lines[end])) {
+      end++;
+    }
+    const content = lines.slice(i + 1, end).join('\n').replace(/<!--[\s\S]*?-->/g, '').trim();
+
+    const kind = SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading[1]))?.[0];
+    if (content || !kind || placed.has(kind) || !sections[kind]) {
+      continue;
+    }
+
+    placed.add(kind);
+    output.push(...lines.slice(i + 1, end), sections[kind]!, '');
+    i = end - 1;
+  }
+
+  const top = (['ticket', 'summary'] as SectionKind[])
+    .filter(kind => sections[kind] && !placed.has(kind))
+    .map(kind => kind === 'ticket' ? `**Ticket:** ${sections.ticket}` : sections[kind]!);
+  const bottom = (['changes', 'diffstat'] as SectionKind[])
+    .filter(kind => sections[kind] && !placed.has(kind))
+    .map(kind => `## ${kind === 'changes' ? 'Changes' : 'Diffstat'}\n\n${sections[kind]}`);
+
+  return [...top, output.join('\n').trim(), ...bottom].filter(part => part.length > 0).join('\n\n');
+}
+
+/**
+ * Generate PR title and body from the branch's commits, diffstat, ticket and the repository's PR template
+ */
+export async function generatePRContent(repoPath: string, options: PRContentOptions = {}): Promise<PRContent> {
+  const branch = await getCurrentBranch(repoPath);
+  const baseRef = options.baseRef || (await resolveBaseBranch(repoPath, { branchName: branch })).ref;
+  const commits = await getCommitsSinceBase(repoPath, baseRef);
+
+  if (commits.length === 0) {
+    throw new Error('No commits found for PR');
+  }
+
+  const ticketInfo = options.ticketInfo;
+  const ticket = ticketInfo?.id || options.ticket || extractTicket(branch);
+
+  // Title summary: the commit itself on single-commit branches, otherwise the ticket title or the branch name
+  const slug = branch.split('/').pop() || branch;
+  const summary = commits.length === 1
+    ? toSummary(parseConventionalCommit(commits[0]).description, ticket)
+    : ticketInfo
+      ? toSummary(ticketInfo.title, ticket)
+      : toSummary(slug.replace(/[-_]+/g, ' ').trim(), ticket) || toSummary(commits[0].subject, ticket);
+
+  const title = ticket
+    ? renderTemplate(options.titleTemplate ?? '[{ticket}] {summary}', { ticket, summary, branch })
+    : summary;
+
+  const sections: Partial<Record<SectionKind, string>> = {};
+  if (ticketInfo) {
+    sections.ticket = `[${ticketInfo.id}](${ticketInfo.url}): ${ticketInfo.title}`;
+  } else if (ticket) {
+    sections.ticket = options.ticketUrl
+      ? `[${ticket}](${renderTemplate(options.ticketUrl, { ticket })})`
+      : ticket;
+  }
+  if (commits.length === 1) {
+    // The commit message body is the best description a single-commit branch has
+    sections.summary = commits[0].body || commits[0].subject;
+  } else {
+    sections.changes = formatChanges(commits);
+  }
+
+  const stat = await getDiffStat(repoPath, baseRef);
+  if (stat.files.length > 0) {
+    sections.diffstat = formatDiffStat(stat);
+  }
+
+  const template = await findTemplate(repoPath, options.template);
+  const body = fillTemplate(template?.content ?? '', title, sections);
+
+  return { title, body, template: template?.path ?? null };
+}
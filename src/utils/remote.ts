@@ -0,0 +1,112 @@
+import { simpleGit } from 'simple-git';
+
+/**
+ * Repository identified from a remote URL
+ */
+export interface RemoteRepo {
+  host: string;
+  /** Port from the URL, null when the protocol default is used */
+  port: number | null;
+  protocol: 'ssh' | 'https' | 'http' | 'git';
+  /** Owner, organization or workspace; may contain slashes for GitLab subgroups */
+  owner: string;
+  name: string;
+}
+
+// Hostnames only; anything else (paths, shell metacharacters) isn't a network remote
+const HOST_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+/**
+ * Split "owner/.../name(.git)" into owner and name
+ */
+function splitRepoPath(repoPath: string): { owner: string; name: string } | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(repoPath);
+  } catch {
+    return null;
+  }
+
+  const segments = decoded
+    .replace(/\/+$/, '')
+    .replace(/\.git$/, '')
+    .split('/')
+    .filter(Boolean);
+
+  if (segments.length < 2) {
+    return null;
+  }
+
+  return { owner: segments.slice(0, -1).join('/'), name: segments[segments.length - 1] };
+}
+
+/**
+ * Parse a git remote URL into host, owner and repository name. Handles
+ * scp-like SSH (git@host:owner/repo.git), ssh:// with ports, https:// (with
+ * credentials or ports), git:// and git+ssh://. Dots in repo names are kept.
+ * Returns null for local paths, file:// URLs and anything unrecognized
+ */
+export function parseRemoteUrl(url: string): RemoteRepo | null {
+  const trimmed = url.trim();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return null;
+    }
+
+    const scheme = parsed.protocol.replace(/:$/, '').toLowerCase();
+    const protocol = scheme === 'https' || scheme === 'http' || scheme === 'git'
+      ? scheme
+      : scheme === 'ssh' || scheme === 'git+ssh' || scheme === 'ssh+git'
+        ? 'ssh'
+        : null;
+    const repoPath = splitRepoPath(parsed.pathname);
+
+    if (!protocol || !parsed.hostname || !HOST_PATTERN.test(parsed.hostname) || !repoPath) {
+      return null;
+    }
+
+    return {
+      host: parsed.hostname.toLowerCase(),
+      port: parsed.port ? Number(parsed.port) : null,
+      protocol,
+      ...repoPath
+    };
+  }
+
+  // scp-like syntax: [user@]host:path, where the path doesn't start with a slash
+  const scpMatch = trimmed.match(/^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/);
+  if (!scpMatch || !HOST_PATTERN.test(scpMatch[1])) {
+    return null;
+  }
+
+  const repoPath = splitRepoPath(scpMatch[2]);
+  return repoPath ? { host: scpMatch[1].toLowerCase(), port: null, protocol: 'ssh', ...repoPath } : null;
+}
+
+/**
+ * Base URL of the forge's web UI for a remote, e.g. https://github.example.com.
+ * The port is only kept for http(s) remotes; an SSH port says nothing about the web server
+ */
+export function webBaseUrl(repo: RemoteRepo): string {
+  const scheme = repo.protocol === 'http' ? 'http' : 'https';
+  const port = (repo.protocol === 'http' || repo.protocol === 'https') && repo.port ? `:${repo.port}` : '';
+  return `${scheme}://${repo.host}${port}`;
+}
+
+/**
+ * Get the fetch URL of the origin remote
+ */
+export async function getOriginUrl(repoPath: string): Promise<string> {
+  const remotes = await simpleGit(repoPath).getRemotes(true);
+  const origin = remotes.find(r => r.name === 'origin');
+
+  if (!origin || !origin.refs.fetch) {
+    throw new Error('No origin remote found');
+  }
+
+  return origin.refs.fetch;
+}
@@ -0,0 +1,58 @@
+import { simpleGit } from 'simple-git';
+import { TicketInfo } from '../trackers/types.js';
+
+// Ticket IDs like CO-4493 or PROJ-123 embedded in branch names and PR titles
+const TICKET_PATTERN = /\b([A-Z][A-Z0-9]+-\d+)\b/;
+
+/**
+ * Extract the first ticket ID from a branch name, path or title
+ */
+export function extractTicket(value: string): string | null {
+  const match = value.match(TICKET_PATTERN);
+  return match ? match[1] : null;
+}
+
+// git config keys (branch.<name>.<key>) holding the ticket a worktree branch was created for
+const TICKET_CONFIG_KEYS = {
+  id: 'worktreeTicket',
+  title: 'worktreeTicketTitle',
+  type: 'worktreeTicketType',
+  status: 'worktreeTicketStatus',
+  url: 'worktreeTicketUrl',
+  tracker: 'worktreeTicketTracker'
+} as const;
+
+/**
+ * Record a branch's ticket so PR bodies and listings can show it without asking the tracker again
+ */
+export async function setBranchTicket(repoPath: string, branchName: string, ticket: TicketInfo): Promise<void> {
+  const git = simpleGit(repoPath);
+  for (const [field, key] of Object.entries(TICKET_CONFIG_KEYS)) {
+    const value = ticket[field as keyof TicketInfo];
+    if (value !== null) {
+      await git.addConfig(`branch.${branchName}.${key}`, value);
+    }
+  }
+}
+
+/**
+ * Ticket recorded for a branch, null when it was created without a tracker lookup
+ */
+export async function getBranchTicket(repoPath: string, branchName: string): Promise<TicketInfo | null> {
+  const git = simpleGit(repoPath);
+  const read = async (key: string) => (await git.getConfig(`branch.${branchName}.${key}`)).value;
+
+  const [id, title, type, status, url, tracker] = await Promise.all([
+    read(TICKET_CONFIG_KEYS.id),
+    read(TICKET_CONFIG_KEYS.title),
+    read(TICKET_CONFIG_KEYS.type),
+    read(TICKET_CONFIG_KEYS.status),
+    read(TICKET_CONFIG_KEYS.url),
+    read(TICKET_CONFIG_KEYS.tracker)
+  ]);
+
+  if (!id || !title || !url || !tracker) {
+    return null;
+  }
+  return { id, title, type, status, url, tracker: tracker as TicketInfo['tracker'] };
+}
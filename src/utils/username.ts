@@ -11,26 +11,17 @@ export interface UsernameResult {
 
 /**
  * Auto-detect username with priority order:
- * 1. Manual override from config file (if set via set-username)
+ * 1. Manual override from the repo's worktree config (see loadConfig)
  * 2. GitHub username from GitHub CLI (if available)
  * 3. Git user.name converted to username format
  */
-export async function detectUsername(configPath?: string): Promise<UsernameResult> {
+export async function detectUsername(configUsername?: string): Promise<UsernameResult> {
   // 1. Check for manual override from config file
-  if (configPath) {
-    try {
-      const fs = await import('fs/promises');
-      const config = await fs.readFile(configPath, 'utf-8');
-      const match = config.match(/USERNAME=(.+)/);
-      if (match && match[1]) {
-        return {
-          username: match[1].trim(),
-          source: 'manual_config'
-        };
-      }
-    } catch (error) {
-      // Config file doesn't exist or can't be read, continue to auto-detection
-    }
+  if (configUsername && configUsername.trim()) {
+    return {
+      username: configUsername.trim(),
+      source: 'manual_config'
+    };
   }
 
   // 2. Try GitHub CLI (most accurate for GitHub workflows)
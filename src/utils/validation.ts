@@ -0,0 +1,117 @@
+/**
+ * The subset of JSON Schema used for tool input schemas. Kept small on purpose:
+ * it is both advertised to clients in tools/list and enforced by validateSchema
+ */
+export type JsonSchema =
+  | { type: 'string'; description?: string; enum?: string[]; minLength?: number }
+  | { type: 'number' | 'integer'; description?: string; minimum?: number }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: JsonSchema }
+  | ObjectSchema;
+
+// A type alias rather than an interface so it is assignable to the SDK's index-signature Tool type
+export type ObjectSchema = {
+  type: 'object';
+  description?: string;
+  properties: Record<string, JsonSchema>;
+  required?: string[];
+  /** Unknown keys are rejected unless this is true */
+  additionalProperties?: boolean;
+};
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return `string ${JSON.stringify(value.length > 40 ? `${value.substring(0, 40)}...` : value)}`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value} ${value}`;
+  }
+  return typeof value;
+}
+
+function validateValue(schema: JsonSchema, value: unknown, at: string, problems: string[]): void {
+  const label = at || 'arguments';
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        problems.push(`${label}: must be a string (got ${describeValue(value)})`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        problems.push(`${label}: must be one of ${schema.enum.join(', ')} (got ${describeValue(value)})`);
+      } else if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        problems.push(`${label}: must not be empty`);
+      }
+      return;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        problems.push(`${label}: must be ${schema.type === 'integer' ? 'an integer' : 'a number'} (got ${describeValue(value)})`);
+      } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+        problems.push(`${label}: must be an integer (got ${describeValue(value)})`);
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        problems.push(`${label}: must be at least ${schema.minimum} (got ${value})`);
+      }
+      return;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        problems.push(`${label}: must be a boolean (got ${describeValue(value)})`);
+      }
+      return;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        problems.push(`${label}: must be an array (got ${describeValue(value)})`);
+        return;
+      }
+      value.forEach((item, index) => validateValue(schema.items, item, `${label}[${index}]`, problems));
+      return;
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        problems.push(`${label}: must be an object (got ${describeValue(value)})`);
+        return;
+      }
+
+      const record = value as Record<string, unknown>;
+      const prefix = at ? `${at}.` : '';
+
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          problems.push(`${prefix}${key}: is required`);
+        }
+      }
+
+      for (const [key, item] of Object.entries(record)) {
+        const propertySchema = schema.properties[key];
+        if (!propertySchema) {
+          if (!schema.additionalProperties) {
+            problems.push(`${prefix}${key}: unknown argument (allowed: ${Object.keys(schema.properties).join(', ')})`);
+          }
+          continue;
+        }
+        if (item === undefined) {
+          continue;
+        }
+        validateValue(propertySchema, item, `${prefix}${key}`, problems);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Check a value against a schema, returning every problem found (empty when valid)
+ */
+export function validateSchema(schema: JsonSchema, value: unknown): string[] {
+  const problems: string[] = [];
+  validateValue(schema, value, '', problems);
+  return problems;
+}
@@ -0,0 +1,150 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { simpleGit } from 'simple-git';
+import { getMainRepoRoot, getRepoName, listWorktrees } from './git.js';
+import { loadConfig } from './config.js';
+import { getBranchTicket } from './ticket.js';
+
+export interface WorkspaceRepo {
+  mainRepoPath: string;
+  repoName: string;
+}
+
+/**
+ * A configured set of repositories whose worktrees for one ticket are handled as a unit
+ */
+export interface Workspace {
+  name: string;
+  /** The repository the workspace is configured in comes first */
+  repos: WorkspaceRepo[];
+}
+
+export interface WorkspaceMember extends WorkspaceRepo {
+  worktreePath: string;
+  branch: string;
+  /** The worktree's directory is gone; only cleanup applies */
+  prunable: boolean;
+}
+
+export interface WorkspaceMembers {
+  members: WorkspaceMember[];
+  /** Repositories of the workspace without a worktree for the ticket */
+  missing: WorkspaceRepo[];
+}
+
+/**
+ * Resolve a workspace from the workspaces config of the repository at cwd. Without a name,
+ * the only configured workspace is used
+ */
+export async function resolveWorkspace(cwd?: string, name?: string): Promise<Workspace> {
+  const mainRepoPath = await getMainRepoRoot(cwd);
+  const config = await loadConfig(mainRepoPath);
+
+  const names = Object.keys(config.workspaces);
+  if (names.length === 0) {
+    throw new Error(`No workspaces configured for ${mainRepoPath} (set workspaces in .worktree-config)`);
+  }
+  if (!name && names.length > 1) {
+    throw new Error(`Several workspaces are configured; pass workspace (one of ${names.join(', ')})`);
+  }
+  const workspaceName = name ?? names[0];
+  const paths = config.workspaces[workspaceName];
+  if (!paths) {
+    throw new Error(`Unknown workspace "${workspaceName}" (configured: ${names.join(', ')})`);
+  }
+
+  const repos: WorkspaceRepo[] = [{ mainRepoPath, repoName: await getRepoName(mainRepoPath) }];
+  for (const entry of paths) {
+    const repoPath = path.resolve(mainRepoPath, entry);
+    const exists = await fs.access(repoPath).then(() => true, () => false);
+    const root = exists ? await getMainRepoRoot(repoPath).catch(() => null) : null;
+    if (!root) {
+      throw new Error(`Workspace "${workspaceName}": ${entry} (${repoPath}) is not a git repository`);
+    }
+    // Listing a repo twice, or this one, would create its worktree twice
+    if (!repos.some(repo => path.resolve(repo.mainRepoPath) === path.resolve(root))) {
+      repos.push({ mainRepoPath: root, repoName: await getRepoName(root) });
+    }
+  }
+
+  return { name: workspaceName, repos };
+}
+
+// git config keys (branch.<name>.<key>) recording the workspace and ticket a branch was created for
+const WORKSPACE_CONFIG_KEY = 'worktreeWorkspace';
+const WORKSPACE_TICKET_CONFIG_KEY = 'worktreeWorkspaceTicket';
+
+// GitHub issue numbers (57, #57, GH-57) are per repository: the same number is a different issue in each repo
+const GITHUB_ISSUE_PATTERN = /^(?:GH-|#)?(\d+)$/i;
+
+/**
+ * Canonical form of a ticket for comparisons: upper case, GitHub issues as GH-<number>
+ */
+function normalizeTicket(ticket: string): string {
+  const issue = ticket.trim().match(GITHUB_ISSUE_PATTERN);
+  return issue ? `GH-${issue[1]}` : ticket.trim().toUpperCase();
+}
+
+/**
+ * Record that a branch was created for a ticket of a workspace, so it is found again by that and nothing else
+ */
+export async function setWorkspaceTicket(repoPath: string, branch: string, workspaceName: string, ticket: string): Promise<void> {
+  const git = simpleGit(repoPath);
+  await git.addConfig(`branch.${branch}.${WORKSPACE_CONFIG_KEY}`, workspaceName);
+  await git.addConfig(`branch.${branch}.${WORKSPACE_TICKET_CONFIG_KEY}`, normalizeTicket(ticket));
+}
+
+/**
+ * Whether a worktree branch belongs to a workspace ticket. Branches create_workspace made match on the
+ * workspace and ticket recorded for them. Other branches match on the ticket recorded for the branch or a
+ * branch name segment (username/TICKET/branch), except for GitHub issues, whose numbers only mean something
+ * within one repository
+ */
+async function isTicketBranch(repoPath: string, branch: string, workspaceName: string, ticket: string): Promise<boolean> {
+  const git = simpleGit(repoPath);
+  const wanted = normalizeTicket(ticket);
+
+  const recordedTicket = (await git.getConfig(`branch.${branch}.${WORKSPACE_TICKET_CONFIG_KEY}`)).value;
+  if (recordedTicket) {
+    const recordedWorkspace = (await git.getConfig(`branch.${branch}.${WORKSPACE_CONFIG_KEY}`)).value;
+    return recordedWorkspace === workspaceName && recordedTicket === wanted;
+  }
+  if (GITHUB_ISSUE_PATTERN.test(ticket.trim())) {
+    return false;
+  }
+
+  if (branch.split('/').some(segment => segment.toUpperCase() === wanted)) {
+    return true;
+  }
+  const recorded = await getBranchTicket(repoPath, branch);
+  return recorded?.id.toUpperCase() === wanted;
+}
+
+/**
+ * Find the worktrees of each workspace repository that belong to a ticket
+ */
+export async function findWorkspaceMembers(workspace: Workspace, ticket: string): Promise<WorkspaceMembers> {
+  const members: WorkspaceMember[] = [];
+  const missing: WorkspaceRepo[] = [];
+
+  for (const repo of workspace.repos) {
+    const worktrees = (await listWorktrees(repo.mainRepoPath)).filter(w => !w.isMain && w.branch);
+    const matching: WorkspaceMember[] = [];
+    for (const worktree of worktrees) {
+      if (await isTicketBranch(repo.mainRepoPath, worktree.branch, workspace.name, ticket)) {
+        matching.push({
+          ...repo,
+          worktreePath: worktree.path,
+          branch: worktree.branch,
+          prunable: worktree.prunable !== undefined
+        });
+      }
+    }
+    if (matching.length === 0) {
+      missing.push(repo);
+    }
+    members.push(...matching);
+  }
+
+  return { members, missing };
+}
@@ -0,0 +1,96 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { bitbucketForge } from '../../src/forges/bitbucket.js';
+import { startStandIn } from '../helpers/stand-in.js';
+
+const repo = { host: 'bitbucket.org', port: null, protocol: 'https' as const, owner: 'acme', name: 'app' };
+const pulls = '/2.0/repositories/acme/app/pullrequests';
+
+function pullRequest(id: number, sourceRepo: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: 'Add billing',
+    description: 'Adds billing',
+    state: 'OPEN',
+    draft: false,
+    links: { html: { href: `https://bitbucket.org/acme/app/pull-requests/${id}` } },
+    source: {
+      branch: { name: 'dev/CO-1/billing' },
+      commit: { hash: 'abc123' },
+      repository: sourceRepo && { full_name: sourceRepo }
+    },
+    destination: { branch: { name: 'main' } },
+    ...overrides
+  };
+}
+
+const standIn = await startStandIn({
+  [`POST ${pulls}`]: request => ({ status: 201, body: pullRequest(12, 'acme/app', { draft: (request.body as { draft: boolean }).draft }) }),
+  [`GET ${pulls}`]: () => ({ body: { values: [pullRequest(12, 'acme/app', { state: 'MERGED' })] } }),
+  [`GET ${pulls}/12`]: () => ({ body: pullRequest(12, 'acme/app') }),
+  [`GET ${pulls}/13`]: () => ({ body: pullRequest(13, 'Contributor/App') }),
+  [`GET ${pulls}/14`]: () => ({ body: pullRequest(14, null, { state: 'DECLINED' }) }),
+  [`GET ${pulls}/401`]: () => ({ status: 401, body: { type: 'error', error: { message: 'Token is invalid' } } })
+});
+after(() => standIn.close());
+
+function bitbucket(token: string) {
+  return bitbucketForge.create({ repo, apiUrl: `${standIn.url}/2.0`, token });
+}
+
+test('creates a pull request with the given fields', async () => {
+  const result = await bitbucket('bb-token').createPullRequest({
+    title: 'Add billing',
+    body: 'Adds billing',
+    head: 'dev/CO-1/billing',
+    base: 'main',
+    draft: true
+  });
+
+  assert.deepEqual(result, { url: 'https://bitbucket.org/acme/app/pull-requests/12', number: 12, title: 'Add billing' });
+  assert.deepEqual(standIn.requests.at(-1)!.body, {
+    title: 'Add billing',
+    description: 'Adds billing',
+    source: { branch: { name: 'dev/CO-1/billing' } },
+    destination: { branch: { name: 'main' } },
+    draft: true
+  });
+});
+
+test('finds the pull request of a branch in any state', async () => {
+  const found = await bitbucket('bb-token').findPullRequestForBranch('dev/CO-1/billing');
+
+  assert.equal(found?.number, 12);
+  assert.equal(found?.state, 'merged');
+  const request = standIn.requests.at(-1)!;
+  assert.equal(request.query.get('q'), 'source.branch.name="dev/CO-1/billing"');
+  assert.deepEqual(request.query.getAll('state'), ['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED']);
+});
+
+test('uses basic auth for app passwords and bearer auth for access tokens', async () => {
+  await bitbucket('jdoe:app-password').getPullRequest(12);
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, `Basic ${Buffer.from('jdoe:app-password').toString('base64')}`);
+
+  await bitbucket('bb-token').getPullRequest(12);
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, 'Bearer bb-token');
+});
+
+test('detects pull requests from forks, including deleted ones', async () => {
+  const own = await bitbucket('bb-token').getPullRequest(12);
+  assert.equal(own.isFork, false);
+  assert.equal(own.headOwner, 'acme');
+
+  const fork = await bitbucket('bb-token').getPullRequest(13);
+  assert.equal(fork.isFork, true);
+  assert.equal(fork.headOwner, 'Contributor');
+  assert.equal(fork.headCloneUrl, 'https://bitbucket.org/Contributor/App.git');
+
+  const deleted = await bitbucket('bb-token').getPullRequest(14);
+  assert.equal(deleted.isFork, true);
+  assert.equal(deleted.headOwner, null);
+  assert.equal(deleted.state, 'closed');
+});
+
+test('reports API errors with their status and message', async () => {
+  await assert.rejects(bitbucket('bb-token').getPullRequest(401), /failed \(401\): Token is invalid/);
+});
@@ -0,0 +1,100 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { giteaForge } from '../../src/forges/gitea.js';
+import { startStandIn } from '../helpers/stand-in.js';
+
+const repo = { host: 'git.example.com', port: null, protocol: 'https' as const, owner: 'acme', name: 'app' };
+
+// Title of pull request 3 as the stand-in currently stores it
+let storedTitle = 'Add billing';
+
+function pullRequest(number: number, title: string, headRepo: string | null) {
+  return {
+    html_url: `https://git.example.com/acme/app/pulls/${number}`,
+    number,
+    title,
+    body: 'Adds billing',
+    state: 'open',
+    merged: false,
+    base: { ref: 'main' },
+    head: {
+      ref: 'dev/CO-1/billing',
+      sha: 'abc123',
+      repo: headRepo && {
+        full_name: headRepo,
+        owner: { login: headRepo.split('/')[0] },
+        clone_url: `https://git.example.com/${headRepo}.git`,
+        ssh_url: `git@git.example.com:${headRepo}.git`
+      }
+    }
+  };
+}
+
+const standIn = await startStandIn({
+  'POST /api/v1/repos/acme/app/pulls': request => ({
+    status: 201,
+    body: pullRequest(3, (request.body as { title: string }).title, 'acme/app')
+  }),
+  // A fork's pull request for the same branch name comes first and must be skipped
+  'GET /api/v1/repos/acme/app/pulls': () => ({
+    body: [pullRequest(4, 'Fork billing', 'contributor/app'), pullRequest(3, storedTitle, 'acme/app')]
+  }),
+  'GET /api/v1/repos/acme/app/pulls/3': () => ({ body: pullRequest(3, storedTitle, 'acme/app') }),
+  'PATCH /api/v1/repos/acme/app/pulls/3': request => {
+    storedTitle = (request.body as { title?: string }).title ?? storedTitle;
+    return { status: 201, body: pullRequest(3, storedTitle, 'acme/app') };
+  },
+  'GET /api/v1/repos/acme/app/pulls/4': () => ({ body: pullRequest(4, 'Fork billing', 'contributor/app') }),
+  'GET /api/v1/repos/acme/app/pulls/5': () => ({ body: pullRequest(5, 'Fork billing', null) })
+});
+after(() => standIn.close());
+
+const gitea = giteaForge.create({ repo, apiUrl: `${standIn.url}/api/v1`, token: 'gt-token' });
+
+test('creates a draft pull request with the WIP prefix', async () => {
+  const result = await gitea.createPullRequest({
+    title: 'Add billing',
+    body: 'Adds billing',
+    head: 'dev/CO-1/billing',
+    base: 'main',
+    draft: true
+  });
+
+  assert.deepEqual(result, { url: 'https://git.example.com/acme/app/pulls/3', number: 3, title: 'WIP: Add billing' });
+  const request = standIn.requests.at(-1)!;
+  assert.deepEqual(request.body, { title: 'WIP: Add billing', body: 'Adds billing', head: 'dev/CO-1/billing', base: 'main' });
+  assert.equal(request.headers.authorization, 'token gt-token');
+});
+
+test('finds the pull request of a branch, skipping forks', async () => {
+  storedTitle = 'Add billing';
+  const found = await gitea.findPullRequestForBranch('dev/CO-1/billing', 'open');
+
+  assert.equal(found?.number, 3);
+  assert.equal(found?.isFork, false);
+  assert.equal(standIn.requests.at(-1)!.query.get('state'), 'open');
+});
+
+test('round-trips the WIP prefix when toggling draft', async () => {
+  storedTitle = 'Add billing';
+
+  assert.equal((await gitea.updatePullRequest(3, { draft: true })).title, 'WIP: Add billing');
+  assert.equal((await gitea.getPullRequest(3)).draft, true);
+  assert.equal((await gitea.updatePullRequest(3, { draft: false })).title, 'Add billing');
+  assert.equal((await gitea.getPullRequest(3)).draft, false);
+});
+
+test('detects pull requests from forks, including deleted ones', async () => {
+  const fork = await gitea.getPullRequest(4);
+  assert.equal(fork.isFork, true);
+  assert.equal(fork.headOwner, 'contributor');
+  assert.equal(fork.headSshUrl, 'git@git.example.com:contributor/app.git');
+
+  const deleted = await gitea.getPullRequest(5);
+  assert.equal(deleted.isFork, true);
+  assert.equal(deleted.headOwner, null);
+});
+
+test('reports API errors with their status', async () => {
+  await assert.rejects(gitea.getPullRequest(404), /failed \(404\): Not Found/);
+});
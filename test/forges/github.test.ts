@@ -0,0 +1,103 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { githubForge } from '../../src/forges/github.js';
+import { startStandIn, RecordedRequest } from '../helpers/stand-in.js';
+
+const repo = { host: 'github.com', port: null, protocol: 'https' as const, owner: 'acme', name: 'app' };
+
+function pullRequest(number: number, headRepo: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    html_url: `https://github.com/acme/app/pull/${number}`,
+    node_id: `PR_${number}`,
+    number,
+    title: 'Add billing',
+    body: 'Adds billing',
+    state: 'open',
+    draft: false,
+    merged_at: null,
+    base: { ref: 'main' },
+    head: {
+      ref: 'dev/CO-1/billing',
+      sha: 'abc123',
+      repo: headRepo && {
+        full_name: headRepo,
+        owner: { login: headRepo.split('/')[0] },
+        clone_url: `https://github.com/${headRepo}.git`,
+        ssh_url: `git@github.com:${headRepo}.git`
+      }
+    },
+    ...overrides
+  };
+}
+
+const standIn = await startStandIn({
+  'POST /repos/acme/app/pulls': request => ({
+    status: 201,
+    body: pullRequest(7, 'acme/app', { title: (request.body as { title: string }).title })
+  }),
+  'GET /repos/acme/app/pulls': () => ({ body: [pullRequest(7, 'acme/app')] }),
+  'GET /repos/acme/app/pulls/7': () => ({ body: pullRequest(7, 'acme/app') }),
+  'GET /repos/acme/app/pulls/8': () => ({ body: pullRequest(8, 'contributor/app') }),
+  'GET /repos/acme/app/pulls/9': () => ({ body: pullRequest(9, null, { state: 'closed', merged_at: '2024-05-01T00:00:00Z' }) })
+});
+after(() => standIn.close());
+
+const github = githubForge.create({ repo, apiUrl: standIn.url, token: 'gh-token' });
+
+function lastRequest(method: string, path: string): RecordedRequest {
+  const request = standIn.requests.filter(r => r.method === method && r.path === path).at(-1);
+  assert.ok(request, `expected ${method} ${path}`);
+  return request;
+}
+
+test('creates a pull request with the given fields', async () => {
+  const result = await github.createPullRequest({
+    title: 'Add billing',
+    body: 'Adds billing',
+    head: 'dev/CO-1/billing',
+    base: 'main',
+    draft: true
+  });
+
+  assert.deepEqual(result, { url: 'https://github.com/acme/app/pull/7', number: 7, title: 'Add billing' });
+  const request = lastRequest('POST', '/repos/acme/app/pulls');
+  assert.deepEqual(request.body, { title: 'Add billing', body: 'Adds billing', head: 'dev/CO-1/billing', base: 'main', draft: true });
+  assert.equal(request.headers.authorization, 'token gh-token');
+});
+
+test('finds the pull request of a branch by owner:branch', async () => {
+  const found = await github.findPullRequestForBranch('dev/CO-1/billing', 'open');
+
+  assert.equal(found?.number, 7);
+  const request = lastRequest('GET', '/repos/acme/app/pulls');
+  assert.equal(request.query.get('head'), 'acme:dev/CO-1/billing');
+  assert.equal(request.query.get('state'), 'open');
+});
+
+test('maps a pull request from the same repository', async () => {
+  const pr = await github.getPullRequest(7);
+
+  assert.equal(pr.title, 'Add billing');
+  assert.equal(pr.body, 'Adds billing');
+  assert.equal(pr.state, 'open');
+  assert.equal(pr.baseRef, 'main');
+  assert.equal(pr.headRef, 'dev/CO-1/billing');
+  assert.equal(pr.isFork, false);
+  assert.equal(pr.headOwner, 'acme');
+});
+
+test('detects pull requests from forks, including deleted ones', async () => {
+  const fork = await github.getPullRequest(8);
+  assert.equal(fork.isFork, true);
+  assert.equal(fork.headOwner, 'contributor');
+  assert.equal(fork.headCloneUrl, 'https://github.com/contributor/app.git');
+
+  const deleted = await github.getPullRequest(9);
+  assert.equal(deleted.isFork, true);
+  assert.equal(deleted.headOwner, null);
+  assert.equal(deleted.state, 'merged');
+});
+
+test('reports API errors with their status', async () => {
+  await assert.rejects(github.getPullRequest(404), { status: 404, message: /Not Found/ });
+});
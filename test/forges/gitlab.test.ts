@@ -0,0 +1,135 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { gitlabForge } from '../../src/forges/gitlab.js';
+import { startStandIn } from '../helpers/stand-in.js';
+
+const repo = { host: 'gitlab.example.com', port: null, protocol: 'https' as const, owner: 'acme', name: 'app' };
+const project = '/api/v4/projects/acme%2Fapp';
+
+// Title of merge request 5 as the stand-in currently stores it
+let storedTitle = 'Add billing';
+
+function mergeRequest(iid: number, title: string, sourceProjectId: number | null = 10) {
+  return {
+    web_url: `https://gitlab.example.com/acme/app/-/merge_requests/${iid}`,
+    iid,
+    title,
+    description: 'Adds billing',
+    state: 'opened',
+    target_branch: 'main',
+    source_branch: 'dev/CO-1/billing',
+    source_project_id: sourceProjectId,
+    target_project_id: 10,
+    sha: 'abc123',
+    merge_status: 'can_be_merged'
+  };
+}
+
+const standIn = await startStandIn({
+  [`POST ${project}/merge_requests`]: request => ({
+    status: 201,
+    body: mergeRequest(5, (request.body as { title: string }).title)
+  }),
+  [`GET ${project}/merge_requests`]: () => ({ body: [mergeRequest(5, storedTitle)] }),
+  [`GET ${project}/merge_requests/5`]: () => ({ body: mergeRequest(5, storedTitle) }),
+  [`PUT ${project}/merge_requests/5`]: request => {
+    storedTitle = (request.body as { title?: string }).title ?? storedTitle;
+    return { body: mergeRequest(5, storedTitle) };
+  },
+  [`GET ${project}/merge_requests/6`]: () => ({ body: mergeRequest(6, 'Fix typo', 42) }),
+  [`GET ${project}/merge_requests/7`]: () => ({ body: mergeRequest(7, 'Fix typo', null) }),
+  'GET /api/v4/projects/10': () => ({
+    body: {
+      path_with_namespace: 'acme/app',
+      namespace: { full_path: 'acme' },
+      http_url_to_repo: 'https://gitlab.example.com/acme/app.git',
+      ssh_url_to_repo: 'git@gitlab.example.com:acme/app.git'
+    }
+  }),
+  'GET /api/v4/projects/42': () => ({
+    body: {
+      path_with_namespace: 'contributor/app',
+      namespace: { full_path: 'contributor' },
+      http_url_to_repo: 'https://gitlab.example.com/contributor/app.git',
+      ssh_url_to_repo: 'git@gitlab.example.com:contributor/app.git'
+    }
+  })
+});
+after(() => standIn.close());
+
+const gitlab = gitlabForge.create({ repo, apiUrl: `${standIn.url}/api/v4`, token: 'gl-token' });
+
+test('creates a draft merge request with the draft prefix', async () => {
+  const result = await gitlab.createPullRequest({
+    title: 'Add billing',
+    body: 'Adds billing',
+    head: 'dev/CO-1/billing',
+    base: 'main',
+    draft: true
+  });
+
+  assert.equal(result.number, 5);
+  assert.equal(result.title, 'Draft: Add billing');
+  const request = standIn.requests.at(-1)!;
+  assert.deepEqual(request.body, {
+    source_branch: 'dev/CO-1/billing',
+    target_branch: 'main',
+    title: 'Draft: Add billing',
+    description: 'Adds billing'
+  });
+  assert.equal(request.headers['private-token'], 'gl-token');
+});
+
+test('finds the merge request of a branch', async () => {
+  storedTitle = 'Add billing';
+  const found = await gitlab.findPullRequestForBranch('dev/CO-1/billing', 'open');
+
+  assert.equal(found?.number, 5);
+  assert.equal(found?.headRef, 'dev/CO-1/billing');
+  assert.equal(found?.state, 'open');
+  const request = standIn.requests.at(-1)!;
+  assert.equal(request.query.get('source_branch'), 'dev/CO-1/billing');
+  assert.equal(request.query.get('state'), 'opened');
+});
+
+test('round-trips the draft prefix when toggling draft', async () => {
+  storedTitle = 'Add billing';
+
+  const drafted = await gitlab.updatePullRequest(5, { draft: true });
+  assert.equal(drafted.title, 'Draft: Add billing');
+  assert.equal((await gitlab.getPullRequest(5)).draft, true);
+
+  // Only the title changes: the merge request stays a draft
+  const renamed = await gitlab.updatePullRequest(5, { title: 'Add invoicing' });
+  assert.equal(renamed.title, 'Draft: Add invoicing');
+
+  const ready = await gitlab.updatePullRequest(5, { draft: false });
+  assert.equal(ready.title, 'Add invoicing');
+  assert.equal((await gitlab.getPullRequest(5)).draft, false);
+});
+
+test('recognizes other draft spellings when marking ready', async () => {
+  storedTitle = '[WIP] Add billing';
+
+  const ready = await gitlab.updatePullRequest(5, { draft: false });
+  assert.equal(ready.title, 'Add billing');
+});
+
+test('detects merge requests from forks', async () => {
+  const own = await gitlab.getPullRequest(5);
+  assert.equal(own.isFork, false);
+  assert.equal(own.headOwner, 'acme');
+
+  const fork = await gitlab.getPullRequest(6);
+  assert.equal(fork.isFork, true);
+  assert.equal(fork.headOwner, 'contributor');
+  assert.equal(fork.headCloneUrl, 'https://gitlab.example.com/contributor/app.git');
+
+  const deleted = await gitlab.getPullRequest(7);
+  assert.equal(deleted.isFork, true);
+  assert.equal(deleted.headOwner, null);
+});
+
+test('reports API errors with their status', async () => {
+  await assert.rejects(gitlab.getPullRequest(404), /failed \(404\): Not Found/);
+});
@@ -0,0 +1,14 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectForgeKind } from '../../src/forges/provider.js';
+
+test('detects the forge from well-known and self-hosted hosts', () => {
+  assert.equal(detectForgeKind('github.com'), 'github');
+  assert.equal(detectForgeKind('github.acme.com'), 'github');
+  assert.equal(detectForgeKind('gitlab.com'), 'gitlab');
+  assert.equal(detectForgeKind('gitlab.acme.com'), 'gitlab');
+  assert.equal(detectForgeKind('bitbucket.org'), 'bitbucket');
+  assert.equal(detectForgeKind('codeberg.org'), 'gitea');
+  assert.equal(detectForgeKind('forgejo.acme.com'), 'gitea');
+  assert.equal(detectForgeKind('git.acme.com'), null);
+});
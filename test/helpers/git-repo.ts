@@ -0,0 +1,64 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface RepoWithOrigin {
+  /** Temporary directory holding everything below; remove it with cleanup() */
+  root: string;
+  /** Bare repository the clone pushes to */
+  originPath: string;
+  /** Main checkout, cloned from origin with main checked out */
+  repoPath: string;
+  /** Run git in a directory and return its trimmed output */
+  git(cwd: string, ...args: string[]): string;
+  /** Commit a file already written in a checkout, returning the new commit's hash */
+  commit(cwd: string, fileName: string, message: string, date?: Date): string;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Create a bare origin with one commit on main and a clone of it. Commits are made with a fixed identity
+ * so the tests don't depend on the machine's git config
+ */
+export async function createRepoWithOrigin(): Promise<RepoWithOrigin> {
+  const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'worktree-tools-test-')));
+  const originPath = path.join(root, 'origin.git');
+  const repoPath = path.join(root, 'repo');
+
+  function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+  }
+
+  function commit(cwd: string, fileName: string, message: string, date?: Date): string {
+    execFileSync('git', ['add', '--', fileName], { cwd, stdio: 'ignore' });
+    execFileSync('git', ['commit', '-q', '-m', message], {
+      cwd,
+      stdio: 'ignore',
+      env: {
+        ...process.env,
+        ...(date ? { GIT_AUTHOR_DATE: date.toISOString(), GIT_COMMITTER_DATE: date.toISOString() } : {})
+      }
+    });
+    return git(cwd, 'rev-parse', 'HEAD');
+  }
+
+  git(root, 'init', '-q', '--bare', '-b', 'main', originPath);
+  git(root, 'clone', '-q', originPath, repoPath);
+  git(repoPath, 'config', 'user.name', 'Test');
+  git(repoPath, 'config', 'user.email', 'test@example.com');
+  git(repoPath, 'checkout', '-q', '-b', 'main');
+  await fs.writeFile(path.join(repoPath, 'README.md'), '# app\n');
+  commit(repoPath, 'README.md', 'Initial commit');
+  git(repoPath, 'push', '-q', '-u', 'origin', 'main');
+  git(repoPath, 'remote', 'set-head', 'origin', 'main');
+
+  return {
+    root,
+    originPath,
+    repoPath,
+    git,
+    commit,
+    cleanup: () => fs.rm(root, { recursive: true, force: true })
+  };
+}
@@ -0,0 +1,71 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  /** Path without the query string */
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  /** Parsed JSON body, null when there was none */
+  body: unknown;
+}
+
+export interface StandInResponse {
+  status?: number;
+  body?: unknown;
+}
+
+/**
+ * Answers one route, keyed by "METHOD /path" (e.g. "GET /repos/acme/app/pulls/7")
+ */
+export type Route = (request: RecordedRequest) => StandInResponse;
+
+export interface StandIn {
+  /** Base URL to pass as a provider's apiUrl */
+  url: string;
+  /** Every request received, in order */
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP server standing in for a forge or tracker API. Unknown routes get a 404 with a JSON message
+ */
+export async function startStandIn(routes: Record<string, Route>): Promise<StandIn> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://stand-in');
+      const request: RecordedRequest = {
+        method: req.method ?? 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : null
+      };
+      requests.push(request);
+
+      const route = routes[`${request.method} ${request.path}`];
+      const { status = 200, body = null } = route ? route(request) : { status: 404, body: { message: 'Not Found' } };
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    })
+  };
+}
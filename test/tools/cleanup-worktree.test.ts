@@ -0,0 +1,44 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { createWorktree } from '../../src/utils/git.js';
+import { cleanupWorktreeTool } from '../../src/tools/cleanup-worktree.js';
+import { createRepoWithOrigin, RepoWithOrigin } from '../helpers/git-repo.js';
+
+let repo: RepoWithOrigin;
+let worktreePath: string;
+
+async function configurePreCleanup(command: string): Promise<void> {
+  await fs.writeFile(path.join(repo.repoPath, '.worktree-config.json'), JSON.stringify({ hooks: { preCleanup: command } }));
+}
+
+beforeEach(async () => {
+  repo = await createRepoWithOrigin();
+  worktreePath = path.join(repo.root, 'worktrees', 'billing');
+  await createWorktree(repo.repoPath, worktreePath, 'dev/CO-1/billing');
+  await fs.writeFile(path.join(worktreePath, 'README.md'), '# app\n\nBilling\n');
+  await fs.writeFile(path.join(worktreePath, 'notes.txt'), 'todo\n');
+});
+
+afterEach(() => repo.cleanup());
+
+test('a failing preCleanup hook leaves unsaved work as it was', async () => {
+  await configurePreCleanup('exit 1');
+  const statusBefore = repo.git(worktreePath, 'status', '--porcelain');
+
+  await assert.rejects(cleanupWorktreeTool({ worktreePath, preserve: 'stash', cwd: repo.repoPath }), /preCleanup/);
+
+  assert.equal(repo.git(worktreePath, 'status', '--porcelain'), statusBefore);
+  assert.equal(repo.git(repo.repoPath, 'stash', 'list'), '');
+});
+
+test('preserves unsaved work once the preCleanup hooks pass', async () => {
+  await configurePreCleanup('true');
+
+  const result = await cleanupWorktreeTool({ worktreePath, preserve: 'stash', cwd: repo.repoPath });
+
+  assert.equal(result.preserved?.method, 'stash');
+  assert.equal(await fs.access(worktreePath).then(() => true, () => false), false);
+  assert.match(repo.git(repo.repoPath, 'stash', 'list'), /dev\/CO-1\/billing/);
+});
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { branchSlugFromTitle } from '../../src/tools/create-worktree.js';
+
+test('slugs a ticket title into lowercase words joined by dashes', () => {
+  assert.equal(branchSlugFromTitle('Add billing to checkout'), 'add-billing-to-checkout');
+  assert.equal(branchSlugFromTitle('[API] Fix 500 on /users/:id (again!)'), 'api-fix-500-on-users-id-again');
+  assert.equal(branchSlugFromTitle('  Ünïcode — café  '), 'n-code-caf');
+});
+
+test('cuts long titles at a word boundary', () => {
+  const slug = branchSlugFromTitle('Retry failed webhook deliveries with exponential backoff and jitter for partners');
+
+  assert.equal(slug, 'retry-failed-webhook-deliveries-with-exponential');
+  assert.ok(slug.length <= 50);
+});
+
+test('cuts a single long word at the maximum length', () => {
+  assert.equal(branchSlugFromTitle('a'.repeat(80)), 'a'.repeat(50));
+});
@@ -0,0 +1,44 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { createWorktree } from '../../src/utils/git.js';
+import { pruneWorktreesTool } from '../../src/tools/prune-worktrees.js';
+import { createRepoWithOrigin, RepoWithOrigin } from '../helpers/git-repo.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let repo: RepoWithOrigin;
+
+beforeEach(async () => {
+  repo = await createRepoWithOrigin();
+  // The base's latest commit is long past staleDays
+  await fs.writeFile(path.join(repo.repoPath, 'CHANGELOG.md'), '# Changelog\n');
+  repo.commit(repo.repoPath, 'CHANGELOG.md', 'Add changelog', new Date(Date.now() - 100 * DAY));
+  repo.git(repo.repoPath, 'push', '-q', 'origin', 'main');
+});
+
+afterEach(() => repo.cleanup());
+
+test('keeps a fresh branch off an old base', async () => {
+  const worktreePath = path.join(repo.root, 'worktrees', 'billing');
+  await createWorktree(repo.repoPath, worktreePath, 'dev/CO-1/billing');
+
+  const result = await pruneWorktreesTool({ mode: 'cleanup', staleDays: 30, checkPullRequests: false, cwd: repo.repoPath });
+
+  assert.deepEqual(result.stale, []);
+  assert.equal(await fs.access(worktreePath).then(() => true, () => false), true);
+});
+
+test('flags a branch whose own latest commit is older than staleDays', async () => {
+  const worktreePath = path.join(repo.root, 'worktrees', 'billing');
+  await createWorktree(repo.repoPath, worktreePath, 'dev/CO-1/billing');
+  await fs.writeFile(path.join(worktreePath, 'billing.ts'), 'export {};\n');
+  repo.commit(worktreePath, 'billing.ts', 'Add billing', new Date(Date.now() - 60 * DAY));
+
+  const result = await pruneWorktreesTool({ mode: 'report', staleDays: 30, checkPullRequests: false, cwd: repo.repoPath });
+
+  assert.equal(result.stale.length, 1);
+  assert.equal(result.stale[0].branch, 'dev/CO-1/billing');
+  assert.deepEqual(result.stale[0].reasons, [{ kind: 'inactive', detail: 'no commits in 60 day(s)' }]);
+});
@@ -0,0 +1,57 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { createWorktree } from '../../src/utils/git.js';
+import { pushWorktreeTool } from '../../src/tools/push-worktree.js';
+import { createRepoWithOrigin, RepoWithOrigin } from '../helpers/git-repo.js';
+
+let repo: RepoWithOrigin;
+let worktreePath: string;
+
+beforeEach(async () => {
+  repo = await createRepoWithOrigin();
+  worktreePath = path.join(repo.root, 'worktrees', 'billing');
+  await createWorktree(repo.repoPath, worktreePath, 'dev/CO-1/billing');
+  await fs.writeFile(path.join(worktreePath, 'billing.ts'), 'export {};\n');
+  repo.commit(worktreePath, 'billing.ts', 'Add billing');
+});
+
+afterEach(() => repo.cleanup());
+
+test('pushes a new worktree branch to its own name and leaves the base alone', async () => {
+  const baseBefore = repo.git(repo.originPath, 'rev-parse', 'refs/heads/main');
+  assert.equal(repo.git(worktreePath, 'for-each-ref', '--format=%(upstream)', 'refs/heads/dev/CO-1/billing'), '');
+
+  const result = await pushWorktreeTool({ worktreePath });
+
+  assert.equal(result.status, 'pushed');
+  assert.equal(result.remoteBranch, 'dev/CO-1/billing');
+  assert.equal(result.upstream, 'origin/dev/CO-1/billing');
+  assert.equal(repo.git(repo.originPath, 'rev-parse', 'refs/heads/main'), baseBefore);
+  assert.equal(
+    repo.git(repo.originPath, 'rev-parse', 'refs/heads/dev/CO-1/billing'),
+    repo.git(worktreePath, 'rev-parse', 'HEAD')
+  );
+});
+
+test('ignores an upstream that is the base branch', async () => {
+  // As branches created with branch.autoSetupMerge end up
+  repo.git(worktreePath, 'branch', '--set-upstream-to', 'origin/main');
+  const baseBefore = repo.git(repo.originPath, 'rev-parse', 'refs/heads/main');
+
+  const result = await pushWorktreeTool({ worktreePath });
+
+  assert.equal(result.remoteBranch, 'dev/CO-1/billing');
+  assert.equal(repo.git(repo.originPath, 'rev-parse', 'refs/heads/main'), baseBefore);
+});
+
+test('keeps pushing to an upstream with a different name', async () => {
+  repo.git(worktreePath, 'push', '-q', 'origin', 'HEAD:refs/heads/CO-1-billing');
+  repo.git(worktreePath, 'branch', '--set-upstream-to', 'origin/CO-1-billing');
+
+  const result = await pushWorktreeTool({ worktreePath });
+
+  assert.equal(result.remoteBranch, 'CO-1-billing');
+  assert.equal(result.status, 'up_to_date');
+});
@@ -0,0 +1,68 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { githubTracker } from '../../src/trackers/github.js';
+import { startStandIn } from '../helpers/stand-in.js';
+
+const repo = { host: 'github.com', port: null, protocol: 'https' as const, owner: 'acme', name: 'app' };
+
+function issue(number: number, overrides: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: 'Dark mode for settings',
+    html_url: `https://github.com/acme/app/issues/${number}`,
+    state: 'open',
+    labels: [{ name: 'enhancement' }],
+    type: null,
+    ...overrides
+  };
+}
+
+const standIn = await startStandIn({
+  'GET /repos/acme/app/issues/57': () => ({ body: issue(57) }),
+  'GET /repos/acme/app/issues/58': () => ({ body: issue(58, { type: { name: 'Feature' } }) }),
+  'GET /repos/acme/app/issues/59': () => ({ body: issue(59, { labels: [] }) }),
+  'GET /repos/acme/app/issues/60': () => ({ body: issue(60, { pull_request: { url: 'https://api.github.com/repos/acme/app/pulls/60' } }) }),
+  'GET /repos/acme/app/issues/401': () => ({ status: 401, body: { message: 'Bad credentials' } })
+});
+after(() => standIn.close());
+
+const github = githubTracker.create({ apiUrl: standIn.url, token: 'gh-token', repo });
+
+test('maps the issue title, first label as type, state and URL', async () => {
+  const ticket = await github.getTicket('GH-57');
+
+  assert.deepEqual(ticket, {
+    id: 'GH-57',
+    title: 'Dark mode for settings',
+    type: 'enhancement',
+    status: 'open',
+    url: 'https://github.com/acme/app/issues/57',
+    tracker: 'github'
+  });
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, 'Bearer gh-token');
+});
+
+test('accepts #123 and bare numbers', async () => {
+  assert.equal((await github.getTicket('#57')).id, 'GH-57');
+  assert.equal((await github.getTicket('57')).id, 'GH-57');
+  await assert.rejects(github.getTicket('CO-57'), /Invalid GitHub issue: CO-57/);
+});
+
+test('prefers the issue type over labels', async () => {
+  assert.equal((await github.getTicket('GH-58')).type, 'Feature');
+  assert.equal((await github.getTicket('GH-59')).type, null);
+});
+
+test('rejects pull requests', async () => {
+  await assert.rejects(github.getTicket('GH-60'), /#60 is a pull request, not an issue/);
+});
+
+test('needs the origin repository', async () => {
+  const withoutRepo = githubTracker.create({ apiUrl: standIn.url, token: 'gh-token', repo: null });
+  await assert.rejects(withoutRepo.getTicket('GH-57'), /need an origin remote on GitHub/);
+});
+
+test('reports unknown issues and rejected tokens with their status', async () => {
+  await assert.rejects(github.getTicket('GH-404'), /failed \(404\): Not Found/);
+  await assert.rejects(github.getTicket('GH-401'), /failed \(401\): Bad credentials/);
+});
@@ -0,0 +1,58 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { jiraTracker } from '../../src/trackers/jira.js';
+import { startStandIn } from '../helpers/stand-in.js';
+
+const standIn = await startStandIn({
+  'GET /rest/api/2/issue/CO-4493': () => ({
+    body: {
+      key: 'CO-4493',
+      fields: { summary: 'Add billing to checkout', issuetype: { name: 'Story' }, status: { name: 'In Progress' } }
+    }
+  }),
+  'GET /rest/api/2/issue/CO-1': () => ({ body: { key: 'CO-1', fields: { summary: 'Untyped', issuetype: null, status: null } } }),
+  'GET /rest/api/2/issue/CO-401': () => ({ status: 401, body: { message: 'Client must be authenticated to access this resource.' } }),
+  'GET /rest/api/2/issue/CO-404': () => ({
+    status: 404,
+    body: { errorMessages: ['Issue does not exist or you do not have permission to see it.'], errors: {} }
+  })
+});
+after(() => standIn.close());
+
+function jira(token: string) {
+  return jiraTracker.create({ apiUrl: standIn.url, token, repo: null });
+}
+
+test('maps the issue title, type, status and browse URL', async () => {
+  const ticket = await jira('pat').getTicket('co-4493');
+
+  assert.deepEqual(ticket, {
+    id: 'CO-4493',
+    title: 'Add billing to checkout',
+    type: 'Story',
+    status: 'In Progress',
+    url: `${standIn.url}/browse/CO-4493`,
+    tracker: 'jira'
+  });
+  assert.equal(standIn.requests.at(-1)!.query.get('fields'), 'summary,issuetype,status');
+});
+
+test('leaves type and status null when the issue has none', async () => {
+  const ticket = await jira('pat').getTicket('CO-1');
+
+  assert.equal(ticket.type, null);
+  assert.equal(ticket.status, null);
+});
+
+test('uses basic auth for Cloud API tokens and bearer auth for personal access tokens', async () => {
+  await jira('jdoe@acme.com:api-token').getTicket('CO-1');
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, `Basic ${Buffer.from('jdoe@acme.com:api-token').toString('base64')}`);
+
+  await jira('pat').getTicket('CO-1');
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, 'Bearer pat');
+});
+
+test('reports unknown issues and rejected tokens with their status', async () => {
+  await assert.rejects(jira('pat').getTicket('CO-404'), /failed \(404\)/);
+  await assert.rejects(jira('pat').getTicket('CO-401'), /failed \(401\): Client must be authenticated/);
+});
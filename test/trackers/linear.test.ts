@@ -0,0 +1,76 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { linearTracker } from '../../src/trackers/linear.js';
+import { startStandIn } from '../helpers/stand-in.js';
+
+const issues: Record<string, unknown> = {
+  'ENG-12': {
+    identifier: 'ENG-12',
+    title: 'Retry failed webhooks',
+    url: 'https://linear.app/acme/issue/ENG-12/retry-failed-webhooks',
+    state: { name: 'Todo' },
+    labels: { nodes: [{ name: 'Bug' }, { name: 'Backend' }] }
+  },
+  'ENG-13': {
+    identifier: 'ENG-13',
+    title: 'Unlabelled',
+    url: 'https://linear.app/acme/issue/ENG-13/unlabelled',
+    state: null,
+    labels: { nodes: [] }
+  }
+};
+
+const standIn = await startStandIn({
+  'POST /graphql': request => {
+    if (request.headers.authorization === 'revoked') {
+      return { status: 401, body: { errors: [{ message: 'Authentication required, not authenticated' }] } };
+    }
+    const { id } = (request.body as { variables: { id: string } }).variables;
+    // GraphQL reports a missing issue with a 200 status
+    return issues[id]
+      ? { body: { data: { issue: issues[id] } } }
+      : { body: { data: null, errors: [{ message: 'Entity not found: Issue' }] } };
+  }
+});
+after(() => standIn.close());
+
+function linear(token: string) {
+  return linearTracker.create({ apiUrl: `${standIn.url}/graphql`, token, repo: null });
+}
+
+test('maps the issue title, first label as type, state and URL', async () => {
+  const ticket = await linear('lin_api_key').getTicket('eng-12');
+
+  assert.deepEqual(ticket, {
+    id: 'ENG-12',
+    title: 'Retry failed webhooks',
+    type: 'Bug',
+    status: 'Todo',
+    url: 'https://linear.app/acme/issue/ENG-12/retry-failed-webhooks',
+    tracker: 'linear'
+  });
+  assert.deepEqual((standIn.requests.at(-1)!.body as { variables: unknown }).variables, { id: 'ENG-12' });
+});
+
+test('leaves type and status null when the issue has none', async () => {
+  const ticket = await linear('lin_api_key').getTicket('ENG-13');
+
+  assert.equal(ticket.type, null);
+  assert.equal(ticket.status, null);
+});
+
+test('sends API keys as is and OAuth tokens with the bearer scheme', async () => {
+  await linear('lin_api_key').getTicket('ENG-12');
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, 'lin_api_key');
+
+  await linear('lin_oauth_token').getTicket('ENG-12');
+  assert.equal(standIn.requests.at(-1)!.headers.authorization, 'Bearer lin_oauth_token');
+});
+
+test('reports unknown issues from GraphQL errors', async () => {
+  await assert.rejects(linear('lin_api_key').getTicket('ENG-404'), /Linear issue ENG-404: Entity not found: Issue/);
+});
+
+test('reports rejected tokens with their status', async () => {
+  await assert.rejects(linear('revoked').getTicket('ENG-12'), /failed \(401\)/);
+});
@@ -0,0 +1,93 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { detectTrackerKind, getTracker } from '../../src/trackers/provider.js';
+import { startStandIn, StandIn } from '../helpers/stand-in.js';
+
+const TOKEN_VARS = ['JIRA_EMAIL', 'JIRA_API_TOKEN', 'JIRA_TOKEN', 'LINEAR_API_KEY'];
+
+let standIn: StandIn;
+let repoPath: string;
+const savedEnv = new Map<string, string | undefined>();
+
+before(async () => {
+  standIn = await startStandIn({
+    'GET /rest/api/2/issue/CO-4493': () => ({
+      body: { key: 'CO-4493', fields: { summary: 'Add billing', issuetype: { name: 'Story' }, status: { name: 'Open' } } }
+    })
+  });
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tracker-provider-'));
+  execFileSync('git', ['init', '-q'], { cwd: repoPath });
+  for (const name of TOKEN_VARS) {
+    savedEnv.set(name, process.env[name]);
+    delete process.env[name];
+  }
+});
+
+after(async () => {
+  for (const [name, value] of savedEnv) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+  await fs.rm(repoPath, { recursive: true, force: true });
+  await standIn.close();
+});
+
+async function writeConfig(config: unknown): Promise<void> {
+  await fs.writeFile(path.join(repoPath, '.worktree-config.json'), JSON.stringify(config));
+}
+
+test('detects the tracker from the ticketUrl link pattern', () => {
+  assert.equal(detectTrackerKind('https://acme.atlassian.net/browse/{ticket}'), 'jira');
+  assert.equal(detectTrackerKind('https://jira.acme.com/browse/{ticket}'), 'jira');
+  assert.equal(detectTrackerKind('https://linear.app/acme/issue/{ticket}'), 'linear');
+  assert.equal(detectTrackerKind('https://github.com/acme/app/issues/{ticket}'), 'github');
+  assert.equal(detectTrackerKind('https://github.com/acme/app/pull/{ticket}'), null);
+  assert.equal(detectTrackerKind('https://tickets.acme.com/{ticket}'), null);
+  assert.equal(detectTrackerKind('not a url'), null);
+});
+
+test('builds a Jira tracker for the site in ticketUrl', async () => {
+  await writeConfig({ ticketUrl: `${standIn.url}/browse/{ticket}` });
+  process.env.JIRA_API_TOKEN = 'pat';
+
+  const tracker = await getTracker(repoPath);
+
+  assert.equal(tracker?.kind, 'jira');
+  assert.equal(tracker?.apiUrl, standIn.url);
+  const ticket = await tracker!.getTicket('CO-4493');
+  assert.equal(ticket.title, 'Add billing');
+  assert.equal(ticket.url, `${standIn.url}/browse/CO-4493`);
+});
+
+test('prefers the configured tracker and API URL over ticketUrl', async () => {
+  await writeConfig({
+    ticketUrl: 'https://acme.atlassian.net/browse/{ticket}',
+    tracker: { provider: 'linear', apiUrl: `${standIn.url}/graphql/` }
+  });
+  process.env.LINEAR_API_KEY = 'lin_api_key';
+
+  const tracker = await getTracker(repoPath);
+
+  assert.equal(tracker?.kind, 'linear');
+  assert.equal(tracker?.apiUrl, `${standIn.url}/graphql`);
+});
+
+test('returns null when no tracker is configured or detectable', async () => {
+  await writeConfig({ ticketUrl: 'https://tickets.acme.com/{ticket}' });
+
+  assert.equal(await getTracker(repoPath), null);
+});
+
+test('explains how to authenticate when no token is found', async () => {
+  await writeConfig({ ticketUrl: `${standIn.url}/browse/{ticket}` });
+  delete process.env.JIRA_API_TOKEN;
+
+  await assert.rejects(getTracker(repoPath), /Jira authentication required\. Set JIRA_EMAIL and JIRA_API_TOKEN/);
+});
@@ -0,0 +1,48 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { loadConfig, resolveWorktreePath } from '../../src/utils/config.js';
+
+let repoPath: string;
+
+before(async () => {
+  repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'worktree-config-'));
+});
+
+after(() => fs.rm(repoPath, { recursive: true, force: true }));
+
+async function loadWith(config: unknown) {
+  await fs.writeFile(path.join(repoPath, '.worktree-config.json'), JSON.stringify(config));
+  return loadConfig(repoPath);
+}
+
+test('accepts path templates that stay inside the worktree root', async () => {
+  assert.equal((await loadWith({ pathTemplate: '{username}/{ticket}/{branch}' })).pathTemplate, '{username}/{ticket}/{branch}');
+  assert.equal((await loadWith({ pathTemplate: '{ticket}/../{branch}' })).pathTemplate, '{ticket}/../{branch}');
+});
+
+test('rejects path templates that leave the worktree root', async () => {
+  for (const pathTemplate of ['../{branch}', '{ticket}/../../{branch}', '/tmp/{branch}', '.', '{branch}/..']) {
+    await assert.rejects(loadWith({ pathTemplate }), /pathTemplate.*must be a relative path that stays inside worktreeRoot/, pathTemplate);
+  }
+});
+
+test('rejects a worktree root that is the repo root', async () => {
+  await assert.rejects(loadWith({ worktreeRoot: './' }), /worktreeRoot.*must name a directory other than the repo root/);
+});
+
+test('refuses worktree paths that ticket or branch names move outside the root', async () => {
+  const config = await loadWith({ worktreeRoot: '../{repo}-worktrees' });
+  const vars = { username: 'jdoe', ticket: 'CO-1', branch: 'billing' };
+
+  assert.equal(
+    resolveWorktreePath(config, repoPath, 'app', vars),
+    path.join(path.dirname(repoPath), 'app-worktrees', 'jdoe', 'CO-1', 'billing')
+  );
+  assert.throws(
+    () => resolveWorktreePath(config, repoPath, 'app', { ...vars, ticket: '../../..' }),
+    /is outside the worktrees root/
+  );
+});
@@ -0,0 +1,62 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { createWorktree } from '../../src/utils/git.js';
+import { findWorkspaceMembers, resolveWorkspace, setWorkspaceTicket, Workspace } from '../../src/utils/workspace.js';
+import { createRepoWithOrigin, RepoWithOrigin } from '../helpers/git-repo.js';
+
+let frontend: RepoWithOrigin;
+let api: RepoWithOrigin;
+let workspace: Workspace;
+
+async function addWorktree(repo: RepoWithOrigin, branch: string): Promise<void> {
+  await createWorktree(repo.repoPath, path.join(repo.root, 'worktrees', branch.replace(/\//g, '-')), branch);
+}
+
+before(async () => {
+  frontend = await createRepoWithOrigin();
+  api = await createRepoWithOrigin();
+  await fs.writeFile(
+    path.join(frontend.repoPath, '.worktree-config.json'),
+    JSON.stringify({ workspaces: { checkout: [path.relative(frontend.repoPath, api.repoPath)] } })
+  );
+  workspace = await resolveWorkspace(frontend.repoPath);
+});
+
+after(async () => {
+  await frontend.cleanup();
+  await api.cleanup();
+});
+
+test('matches tracker tickets by branch segment across repos', async () => {
+  await addWorktree(frontend, 'jdoe/CO-1/billing');
+  await addWorktree(api, 'jdoe/CO-1/billing');
+
+  const { members, missing } = await findWorkspaceMembers(workspace, 'co-1');
+
+  assert.deepEqual(members.map(member => member.branch), ['jdoe/CO-1/billing', 'jdoe/CO-1/billing']);
+  assert.deepEqual(missing, []);
+});
+
+test('does not group GitHub issues with the same number from different repos', async () => {
+  await addWorktree(frontend, 'jdoe/GH-12/dark-mode');
+  await addWorktree(api, 'jdoe/GH-12/rate-limits');
+
+  const { members, missing } = await findWorkspaceMembers(workspace, 'GH-12');
+
+  assert.deepEqual(members, []);
+  assert.equal(missing.length, 2);
+});
+
+test('matches branches on the workspace ticket recorded for them', async () => {
+  await addWorktree(frontend, 'jdoe/GH-34/export');
+  await addWorktree(api, 'jdoe/GH-34/export');
+  await setWorkspaceTicket(frontend.repoPath, 'jdoe/GH-34/export', 'checkout', '#34');
+  await setWorkspaceTicket(api.repoPath, 'jdoe/GH-34/export', 'other', 'GH-34');
+
+  const { members, missing } = await findWorkspaceMembers(workspace, 'gh-34');
+
+  assert.deepEqual(members.map(member => member.repoName), [workspace.repos[0].repoName]);
+  assert.deepEqual(missing, [workspace.repos[1]]);
+});